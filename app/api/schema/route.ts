@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import type { ApiErrorResponse } from "@/lib/api-contract";
+import { buildMetadataJsonSchema } from "@/lib/json-schema";
+import { DEFAULT_PROFILE, findProfile } from "@/lib/profiles";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  isSchemaVersionId,
+} from "@/lib/schema-versions";
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const version = searchParams.get("version") ?? CURRENT_SCHEMA_VERSION.id;
+  if (!isSchemaVersionId(version)) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: `Unknown schema version "${version}"` },
+      { status: 400 }
+    );
+  }
+  const profileId = searchParams.get("profile") ?? DEFAULT_PROFILE.id;
+  const profile = findProfile(profileId);
+  if (!profile) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: `Unknown rule profile "${profileId}"` },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(
+    buildMetadataJsonSchema(getSchemaVersion(version), profile),
+    { headers: { "Content-Type": "application/schema+json" } }
+  );
+}
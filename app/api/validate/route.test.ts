@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import { POST } from "@/app/api/validate/route";
+
+function post(body: unknown) {
+  return POST(
+    new Request("http://localhost/api/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    })
+  );
+}
+
+function lineOf(text: string, search: string) {
+  return text.split("\n").findIndex((line) => line.includes(search)) + 1;
+}
+
+describe("POST /api/validate", () => {
+  it("returns 200 with the prompts of a valid document", async () => {
+    const document = validMetadata(2);
+    const response = await post({ document, expectedPromptCount: 2 });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      valid: true,
+      errors: [],
+      prompts: document.prompts,
+    });
+  });
+
+  it("accepts the document as JSON text and locates its findings", async () => {
+    const text = JSON.stringify(validMetadata(), null, 2);
+    const response = await post({ document: text, expectedPromptCount: 2 });
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.valid).toBe(false);
+    expect(body.prompts).toEqual([]);
+    expect(body.errors).toMatchObject([
+      {
+        ruleId: "PROMPT_COUNT_MISMATCH",
+        location: { start: { line: lineOf(text, '"prompts"') } },
+      },
+    ]);
+  });
+
+  it("returns 422 for a JSON text with syntax errors", async () => {
+    const response = await post({ document: "{", expectedPromptCount: 1 });
+    expect(response.status).toBe(422);
+    expect((await response.json()).errors).toMatchObject([
+      { ruleId: "JSON_SYNTAX_ERROR" },
+    ]);
+  });
+
+  it("applies suppressions", async () => {
+    const response = await post({
+      document: validMetadata(2),
+      expectedPromptCount: 1,
+      suppress: ["PROMPT_COUNT_MISMATCH"],
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it("returns 400 when the body is not JSON", async () => {
+    const response = await post("{");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Request body must be valid JSON",
+    });
+  });
+
+  it("returns 400 with the issues of an invalid request", async () => {
+    const response = await post({
+      document: 1,
+      expectedPromptCount: 1.5,
+      suppress: ["NOT_A_RULE"],
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe("Invalid request");
+    expect(body.issues.map(({ path }: { path: string }) => path)).toEqual([
+      "document",
+      "expectedPromptCount",
+      "suppress.0",
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import {
+  validateRequestSchema,
+  type ApiErrorResponse,
+  type ValidateResponse,
+} from "@/lib/api-contract";
+import {
+  isPassing,
+  validateMetadata,
+  validateMetadataText,
+  type MetadataTextValidation,
+} from "@/lib/validate-metadata";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = validateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json<ApiErrorResponse>(
+      {
+        error: "Invalid request",
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { document, ...options } = parsed.data;
+  const { data, errors }: MetadataTextValidation =
+    typeof document === "string"
+      ? validateMetadataText(document, options)
+      : { data: document, errors: validateMetadata(document, options) };
+
+  const valid = isPassing(errors);
+  const prompts = (data as { prompts?: unknown } | undefined)?.prompts;
+  return NextResponse.json<ValidateResponse>(
+    {
+      valid,
+      errors,
+      prompts: valid && Array.isArray(prompts) ? prompts : [],
+    },
+    { status: valid ? 200 : 422 }
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Wand2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  applyFixes,
+  getValueAtPointer,
+  proposeFixes,
+  type AutoFix,
+} from "@/lib/autofix";
+import type { RuleProfile } from "@/lib/profiles";
+
+interface AutoFixPanelProps {
+  data: unknown;
+  profile?: RuleProfile;
+  onApply: (fixed: unknown) => void;
+}
+
+function formatValue(value: unknown) {
+  return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+export function AutoFixPanel({ data, profile, onApply }: AutoFixPanelProps) {
+  const fixes = useMemo(() => proposeFixes(data, profile), [data, profile]);
+  // Track opt-outs so fixes proposed after a re-validation start selected
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  if (fixes.length === 0) return null;
+
+  const selected = fixes.filter((fix) => !excluded.has(fix.id));
+
+  const toggle = (fix: AutoFix, checked: boolean) => {
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (checked) next.delete(fix.id);
+      else next.add(fix.id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 font-semibold text-sm">
+          <Wand2 className="h-4 w-4" />
+          Suggested Fixes
+        </h4>
+        <Button
+          size="sm"
+          onClick={() => onApply(applyFixes(data, selected))}
+          disabled={selected.length === 0}
+        >
+          Apply {selected.length} fix{selected.length !== 1 ? "es" : ""}
+        </Button>
+      </div>
+
+      {fixes.map((fix) => (
+        <div key={fix.id} className="space-y-2">
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id={`fix-${fix.id}`}
+              checked={!excluded.has(fix.id)}
+              onCheckedChange={(checked) => toggle(fix, checked === true)}
+              className="mt-0.5"
+            />
+            <div>
+              <Label htmlFor={`fix-${fix.id}`}>{fix.title}</Label>
+              <p className="text-xs text-muted-foreground">
+                {fix.description}
+              </p>
+            </div>
+          </div>
+          <div className="ml-6 space-y-1 font-mono text-xs">
+            {fix.patch.map((operation) => (
+              <div
+                key={operation.path}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <Badge variant="outline" className="text-xs">
+                  {operation.path}
+                </Badge>
+                <span className="bg-red-50 text-red-700 line-through px-1 rounded">
+                  {formatValue(getValueAtPointer(data, operation.path))}
+                </span>
+                <span>→</span>
+                <span className="bg-green-50 text-green-700 px-1 rounded">
+                  {operation.op === "remove"
+                    ? "(removed)"
+                    : formatValue(operation.value)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Applying fixes reformats the JSON input and runs validation again.
+      </p>
+    </div>
+  );
+}
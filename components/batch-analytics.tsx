@@ -0,0 +1,262 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ALL,
+  batchFilterOptions,
+  computeBatchAnalytics,
+  filterBatchResults,
+  type CountEntry,
+} from "@/lib/batch-analytics";
+import type { BatchResult } from "@/lib/batch-validation";
+import type { Severity } from "@/lib/validation-rules";
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  error: "hsl(var(--destructive))",
+  warning: "#f59e0b",
+  info: "hsl(var(--muted-foreground))",
+};
+
+const TICK = { fontSize: 11 };
+
+function ChartCard({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <h4 className="font-semibold text-sm">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+function DistributionChart({
+  title,
+  data,
+  color,
+}: {
+  title: string;
+  data: CountEntry[];
+  color: string;
+}) {
+  return (
+    <ChartCard title={title}>
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No values</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="value" tick={TICK} interval={0} />
+            <YAxis allowDecimals={false} tick={TICK} width={32} />
+            <Tooltip />
+            <Bar dataKey="count" name="Count" fill={color} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </ChartCard>
+  );
+}
+
+function FilterSelect({
+  id,
+  label,
+  value,
+  options,
+  onValueChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  options: string[];
+  onValueChange: (value: string) => void;
+}) {
+  return (
+    <div className="w-56">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function BatchAnalytics({ results }: { results: BatchResult[] }) {
+  const [language, setLanguage] = useState(ALL);
+  const [workflow, setWorkflow] = useState(ALL);
+
+  const options = useMemo(() => batchFilterOptions(results), [results]);
+  // A new batch can lack the selected value, which would blank the select
+  // and every chart, so fall back to all
+  if (language !== ALL && !options.languages.includes(language)) {
+    setLanguage(ALL);
+  }
+  if (workflow !== ALL && !options.workflows.includes(workflow)) {
+    setWorkflow(ALL);
+  }
+  const analytics = useMemo(
+    () =>
+      computeBatchAnalytics(
+        filterBatchResults(results, { language, workflow })
+      ),
+    [results, language, workflow]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <FilterSelect
+          id="analytics-language"
+          label="Programming language"
+          value={language}
+          options={options.languages}
+          onValueChange={setLanguage}
+        />
+        <FilterSelect
+          id="analytics-workflow"
+          label="Workflow"
+          value={workflow}
+          options={options.workflows}
+          onValueChange={setWorkflow}
+        />
+        <div className="flex gap-2 pb-2">
+          <Badge variant="secondary">{analytics.documentCount} documents</Badge>
+          <Badge variant="secondary">{analytics.promptCount} prompts</Badge>
+        </div>
+      </div>
+
+      {analytics.documentCount === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No documents match the current filters.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <DistributionChart
+            title="Use case"
+            data={analytics.usecase}
+            color="hsl(var(--chart-1))"
+          />
+          <DistributionChart
+            title="Level of correctness"
+            data={analytics.levelOfCorrectness}
+            color="hsl(var(--chart-2))"
+          />
+          <DistributionChart
+            title="Issue type"
+            data={analytics.issueType}
+            color="hsl(var(--chart-3))"
+          />
+          <DistributionChart
+            title="Choice"
+            data={analytics.choice}
+            color="hsl(var(--chart-4))"
+          />
+          <DistributionChart
+            title="Programming language"
+            data={analytics.programmingLanguage}
+            color="hsl(var(--chart-5))"
+          />
+
+          <ChartCard title="Memory answers">
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={analytics.memory} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tick={TICK} />
+                <YAxis
+                  type="category"
+                  dataKey="field"
+                  tick={TICK}
+                  width={210}
+                />
+                <Tooltip />
+                <Legend />
+                <Bar
+                  dataKey="yes"
+                  name="Yes"
+                  stackId="answers"
+                  fill="#16a34a"
+                />
+                <Bar dataKey="no" name="No" stackId="answers" fill="#dc2626" />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <div className="lg:col-span-2">
+            <ChartCard title="Most frequent findings">
+              {analytics.ruleFailures.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No findings in these documents.
+                </p>
+              ) : (
+                <ResponsiveContainer
+                  width="100%"
+                  height={40 + analytics.ruleFailures.length * 28}
+                >
+                  <BarChart data={analytics.ruleFailures} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tick={TICK} />
+                    <YAxis
+                      type="category"
+                      dataKey="ruleId"
+                      tick={TICK}
+                      width={260}
+                    />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Findings">
+                      {analytics.ruleFailures.map((failure) => (
+                        <Cell
+                          key={failure.ruleId}
+                          fill={SEVERITY_COLORS[failure.severity]}
+                        />
+                      ))}
+                    </Bar>
+                    <Bar
+                      dataKey="documents"
+                      name="Documents"
+                      fill="hsl(var(--muted-foreground))"
+                      fillOpacity={0.4}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
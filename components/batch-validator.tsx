@@ -0,0 +1,335 @@
+"use client";
+
+import { Fragment, useMemo, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BatchAnalytics } from "@/components/batch-analytics";
+import { ValidationErrorList } from "@/components/validation-error-list";
+import { useToast } from "@/hooks/use-toast";
+import {
+  readMetadataFiles,
+  validateBatch,
+  type BatchResult,
+  type MetadataFile,
+} from "@/lib/batch-validation";
+import type { RuleProfile } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+
+type SortKey = "name" | "uuid" | "jiraId" | "promptCount" | "valid" | "errors";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "File" },
+  { key: "uuid", label: "UUID" },
+  { key: "jiraId", label: "JIRA ID" },
+  { key: "promptCount", label: "Prompts" },
+  { key: "valid", label: "Status" },
+  { key: "errors", label: "Errors" },
+];
+
+function sortValue(result: BatchResult, key: SortKey): string | number {
+  switch (key) {
+    case "promptCount":
+      return result.promptCount ?? -1;
+    case "valid":
+      return result.valid ? 1 : 0;
+    case "errors":
+      return result.errorCount;
+    default:
+      return result[key];
+  }
+}
+
+interface BatchValidatorProps {
+  profile?: RuleProfile;
+}
+
+export function BatchValidator({ profile }: BatchValidatorProps) {
+  const [files, setFiles] = useState<MetadataFile[]>([]);
+  const [promptCount, setPromptCount] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({
+    key: "name",
+    ascending: true,
+  });
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const validated = useMemo(
+    () =>
+      validateBatch(files, {
+        expectedPromptCount: promptCount,
+        profile: profile?.id,
+      }),
+    [files, promptCount, profile]
+  );
+
+  // Sorted separately so re-sorting doesn't re-validate every file
+  const results = useMemo(
+    () =>
+      [...validated].sort((a, b) => {
+        const left = sortValue(a, sort.key);
+        const right = sortValue(b, sort.key);
+        const order =
+          typeof left === "number" && typeof right === "number"
+            ? left - right
+            : String(left).localeCompare(String(right));
+        return sort.ascending ? order : -order;
+      }),
+    [validated, sort]
+  );
+
+  const failedCount = results.filter((result) => !result.valid).length;
+
+  const addFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    try {
+      const loaded = await readMetadataFiles(fileList);
+      if (loaded.length === 0) {
+        toast({
+          title: "No metadata files found",
+          description: "Drop .json files or a .zip archive containing them",
+          variant: "destructive",
+        });
+        return;
+      }
+      setFiles((current) => [
+        ...current.filter(
+          (file) => !loaded.some((added) => added.name === file.name)
+        ),
+        ...loaded,
+      ]);
+    } catch (error) {
+      toast({
+        title: "Could not read files",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({
+      key,
+      ascending: current.key === key ? !current.ascending : true,
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Batch Validation</CardTitle>
+        <CardDescription>
+          Validate many metadata files at once. Drop .json files or a .zip
+          archive.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+          <div>
+            <Label htmlFor="batch-prompt-count">Number of Prompts</Label>
+            <Input
+              id="batch-prompt-count"
+              type="number"
+              placeholder="Expected prompts"
+              value={promptCount}
+              onChange={(e) => setPromptCount(e.target.value)}
+            />
+          </div>
+          <div
+            className={cn(
+              "flex items-center justify-center gap-3 rounded-md border-2 border-dashed p-4 text-sm text-muted-foreground",
+              isDragging && "border-primary bg-muted"
+            )}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              addFiles(e.dataTransfer.files);
+            }}
+          >
+            <Upload className="h-4 w-4" />
+            Drop files here or
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Browse
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.zip,application/json,application/zip"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{results.length} files</Badge>
+                {failedCount > 0 ? (
+                  <Badge variant="destructive">{failedCount} failed</Badge>
+                ) : (
+                  <Badge variant="outline">All passed</Badge>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setFiles([]);
+                  setExpanded(null);
+                }}
+              >
+                Clear
+              </Button>
+            </div>
+
+            <Tabs defaultValue="files">
+              <TabsList>
+                <TabsTrigger value="files">Files</TabsTrigger>
+                <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              </TabsList>
+              <TabsContent value="files">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      {COLUMNS.map((column) => (
+                        <TableHead key={column.key}>
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1"
+                            onClick={() => toggleSort(column.key)}
+                          >
+                            {column.label}
+                            {sort.key === column.key &&
+                              (sort.ascending ? (
+                                <ArrowUp className="h-3 w-3" />
+                              ) : (
+                                <ArrowDown className="h-3 w-3" />
+                              ))}
+                          </button>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <Fragment key={result.name}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() =>
+                            setExpanded(
+                              expanded === result.name ? null : result.name
+                            )
+                          }
+                        >
+                          <TableCell>
+                            {expanded === result.name ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {result.name}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {result.uuid || "—"}
+                          </TableCell>
+                          <TableCell>{result.jiraId || "—"}</TableCell>
+                          <TableCell>{result.promptCount ?? "—"}</TableCell>
+                          <TableCell>
+                            {result.valid ? (
+                              <span className="inline-flex items-center gap-1 text-green-600">
+                                <CheckCircle2 className="h-4 w-4" />
+                                Pass
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center gap-1 text-red-600">
+                                <XCircle className="h-4 w-4" />
+                                Fail
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {result.errorCount}
+                            {result.warningCount > 0 && (
+                              <span className="text-muted-foreground">
+                                {" "}
+                                (+{result.warningCount} warning
+                                {result.warningCount !== 1 ? "s" : ""})
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {expanded === result.name && (
+                          <TableRow className="hover:bg-transparent">
+                            <TableCell colSpan={COLUMNS.length + 1}>
+                              {result.errors.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                  All validation checks passed successfully!
+                                </p>
+                              ) : (
+                                <ValidationErrorList errors={result.errors} />
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+              <TabsContent value="analytics">
+                <BatchAnalytics results={validated} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
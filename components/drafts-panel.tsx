@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import { FilePlus2, History, Pencil, Trash2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { useDraftAutosave } from "@/hooks/use-draft-autosave";
+import { useToast } from "@/hooks/use-toast";
+import type { MetadataDraft } from "@/lib/drafts-store";
+
+type DraftAutosave = ReturnType<typeof useDraftAutosave>;
+
+interface DraftsPanelProps {
+  autosave: DraftAutosave;
+  onNewDraft: () => void;
+}
+
+const STATUS_LABELS: Record<DraftAutosave["status"], string> = {
+  idle: "",
+  pending: "Saving…",
+  saved: "All changes saved",
+  error: "Could not save draft",
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString();
+}
+
+interface DraftRestorePromptProps {
+  autosave: DraftAutosave;
+  onRestore?: () => void;
+}
+
+export function DraftRestorePrompt({
+  autosave,
+  onRestore,
+}: DraftRestorePromptProps) {
+  const draft = autosave.restoreCandidate;
+  if (!draft) return null;
+
+  return (
+    <Alert>
+      <History className="h-4 w-4" />
+      <AlertDescription className="flex flex-wrap items-center gap-2">
+        <span>
+          Restore unsaved work from <strong>{draft.name}</strong> (last edited{" "}
+          {formatTime(draft.updatedAt)})?
+        </span>
+        <div className="ml-auto flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              autosave.resumeDraft(draft);
+              onRestore?.();
+            }}
+          >
+            Restore
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={autosave.dismissRestore}
+          >
+            Dismiss
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function DraftsPanel({ autosave, onNewDraft }: DraftsPanelProps) {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const { drafts, currentDraft, status } = autosave;
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const commitRename = (draft: MetadataDraft) => {
+    const name = renaming?.name.trim();
+    if (name && name !== draft.name) {
+      autosave
+        .renameDraft(draft, name)
+        .catch((error) => showError("Could not rename draft", error));
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold">Drafts</h3>
+          {currentDraft && (
+            <Badge variant="secondary">{currentDraft.name}</Badge>
+          )}
+          {STATUS_LABELS[status] && (
+            <span
+              className={
+                status === "error"
+                  ? "text-xs text-red-600"
+                  : "text-xs text-muted-foreground"
+              }
+            >
+              {STATUS_LABELS[status]}
+            </span>
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onNewDraft}
+        >
+          <FilePlus2 className="h-4 w-4 mr-2" />
+          New Draft
+        </Button>
+      </div>
+
+      {!autosave.isAvailable && (
+        <p className="text-sm text-muted-foreground">
+          Drafts are unavailable because this browser blocks IndexedDB.
+        </p>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {drafts.map((draft) => (
+            <div
+              key={draft.id}
+              className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm"
+            >
+              {renaming?.id === draft.id ? (
+                <Input
+                  autoFocus
+                  className="h-8"
+                  value={renaming.name}
+                  onChange={(e) =>
+                    setRenaming({ id: draft.id, name: e.target.value })
+                  }
+                  onBlur={() => commitRename(draft)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      commitRename(draft);
+                    }
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                />
+              ) : (
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{draft.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Edited {formatTime(draft.updatedAt)} ·{" "}
+                    {draft.values.prompts?.length ?? 0} prompts
+                  </p>
+                </div>
+              )}
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={currentDraft?.id === draft.id}
+                  onClick={() => autosave.resumeDraft(draft)}
+                >
+                  {currentDraft?.id === draft.id ? "Open" : "Resume"}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-label="Rename draft"
+                  onClick={() =>
+                    setRenaming({ id: draft.id, name: draft.name })
+                  }
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-label="Delete draft"
+                  onClick={() =>
+                    autosave
+                      .removeDraft(draft)
+                      .catch((error) =>
+                        showError("Could not delete draft", error)
+                      )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { parseDriveUrl } from "@/lib/gdrive";
+
+interface DriveLinkBadgeProps {
+  url: unknown;
+}
+
+// Shows the Drive object a link resolves to, e.g. "file 1AbC…"
+export function DriveLinkBadge({ url }: DriveLinkBadgeProps) {
+  if (typeof url !== "string" || url === "") return null;
+  const result = parseDriveUrl(url);
+  if (!result.ok) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="max-w-[220px] font-mono text-xs"
+      title={result.link.id}
+    >
+      <span className="truncate">
+        {result.link.kind ?? "drive"} {result.link.id}
+      </span>
+    </Badge>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import CodeMirror, { EditorView } from "@uiw/react-codemirror";
+import { json } from "@codemirror/lang-json";
+import { foldEffect, unfoldAll } from "@codemirror/language";
+import { lintGutter, setDiagnostics, type Diagnostic } from "@codemirror/lint";
+import { ChevronsDownUp, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { buildJsonSourceMap, type JsonRange } from "@/lib/json-parser";
+import { cn } from "@/lib/utils";
+import type { ValidationError } from "@/lib/validate-metadata";
+
+interface JsonEditorProps {
+  id?: string;
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  // Findings with a location are underlined in the text
+  findings?: ValidationError[];
+  // Selects and scrolls to this range whenever a new range is passed
+  selection?: JsonRange | null;
+  className?: string;
+  minHeight?: string;
+  maxHeight?: string;
+}
+
+const NO_FINDINGS: ValidationError[] = [];
+
+// Clamps an offset so stale ranges can't point past the end of the document
+function clamp(view: EditorView, offset: number) {
+  return Math.min(Math.max(offset, 0), view.state.doc.length);
+}
+
+function toDiagnostics(view: EditorView, findings: ValidationError[]) {
+  return findings.flatMap((finding): Diagnostic[] => {
+    if (!finding.location) return [];
+    const from = clamp(view, finding.location.start.offset);
+    const to = clamp(view, finding.location.end.offset);
+    return [
+      {
+        from,
+        to,
+        severity: finding.severity,
+        source: finding.ruleId,
+        message: `${finding.field}: ${finding.message}`,
+      },
+    ];
+  });
+}
+
+/**
+ * CodeMirror-based JSON editor with highlighting, bracket matching and
+ * folding, plus squiggly underlines for located validation findings.
+ */
+export function JsonEditor({
+  id,
+  value,
+  onChange,
+  readOnly = false,
+  placeholder,
+  findings = NO_FINDINGS,
+  selection,
+  className,
+  minHeight = "200px",
+  maxHeight = "600px",
+}: JsonEditorProps) {
+  const [view, setView] = useState<EditorView | null>(null);
+  const extensions = useMemo(
+    () => [
+      json(),
+      lintGutter(),
+      EditorView.lineWrapping,
+      EditorView.contentAttributes.of(id ? { id } : {}),
+    ],
+    [id]
+  );
+
+  // Runs after CodeMirror has synced `value`, so offsets match the document
+  useEffect(() => {
+    if (!view) return;
+    view.dispatch(setDiagnostics(view.state, toDiagnostics(view, findings)));
+  }, [view, findings]);
+
+  useEffect(() => {
+    if (!view || !selection) return;
+    const anchor = clamp(view, selection.start.offset);
+    const head = clamp(
+      view,
+      Math.max(selection.end.offset, selection.start.offset + 1)
+    );
+    view.dispatch({
+      selection: { anchor, head },
+      effects: EditorView.scrollIntoView(anchor, { y: "center" }),
+    });
+    view.focus();
+  }, [view, selection]);
+
+  const foldPrompts = () => {
+    if (!view) return;
+    const prompts = buildJsonSourceMap(view.state.doc.toString()).get(
+      "prompts"
+    );
+    if (!prompts) return;
+    // Fold between the brackets so `[` and `]` stay visible
+    view.dispatch({
+      effects: foldEffect.of({
+        from: prompts.value.start.offset + 1,
+        to: prompts.value.end.offset - 1,
+      }),
+    });
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex justify-end gap-1">
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={foldPrompts}
+          disabled={!value}
+        >
+          <ChevronsDownUp className="h-3 w-3 mr-1" />
+          Fold prompts
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={() => view && unfoldAll(view)}
+          disabled={!value}
+        >
+          <ChevronsUpDown className="h-3 w-3 mr-1" />
+          Unfold all
+        </Button>
+      </div>
+      <CodeMirror
+        value={value}
+        onChange={onChange}
+        readOnly={readOnly}
+        editable={!readOnly}
+        placeholder={placeholder}
+        extensions={extensions}
+        minHeight={minHeight}
+        maxHeight={maxHeight}
+        onCreateEditor={(editor) => setView(editor)}
+        className="overflow-hidden rounded-md border border-input text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useRef } from "react";
+import { Download, FileJson, Upload, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import {
+  buildMetadataJsonSchema,
+  compileExternalJsonSchema,
+  type ExternalJsonSchema,
+} from "@/lib/json-schema";
+import type { RuleProfile } from "@/lib/profiles";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  type SchemaVersionId,
+} from "@/lib/schema-versions";
+
+interface JsonSchemaToolsProps {
+  schemaVersion: SchemaVersionId | "auto";
+  profile: RuleProfile;
+  externalSchema: ExternalJsonSchema | null;
+  onExternalSchemaChange: (schema: ExternalJsonSchema | null) => void;
+}
+
+export function JsonSchemaTools({
+  schemaVersion,
+  profile,
+  externalSchema,
+  onExternalSchemaChange,
+}: JsonSchemaToolsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const downloadSchema = () => {
+    const version =
+      schemaVersion === "auto"
+        ? CURRENT_SCHEMA_VERSION
+        : getSchemaVersion(schemaVersion);
+    downloadFile(
+      `metadata-${profile.id}-${version.id}.schema.json`,
+      JSON.stringify(buildMetadataJsonSchema(version, profile), null, 2),
+      "application/schema+json"
+    );
+  };
+
+  const loadSchema = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const schema = compileExternalJsonSchema(await file.text());
+      onExternalSchemaChange(schema);
+      toast({
+        title: "JSON Schema loaded",
+        description: `Documents are now validated against "${schema.title}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not load JSON Schema",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={downloadSchema}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Download JSON Schema
+      </Button>
+      {externalSchema ? (
+        <Badge variant="secondary" className="gap-1">
+          <FileJson className="h-3 w-3" />
+          {externalSchema.title}
+          <button
+            type="button"
+            aria-label="Stop using external schema"
+            onClick={() => onExternalSchemaChange(null)}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Load JSON Schema
+        </Button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json,application/schema+json"
+        className="hidden"
+        onChange={(e) => {
+          loadSchema(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { buildMemoryScorecard } from "@/lib/memory-scorecard";
+import type { RuleProfile } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+
+interface MemoryScorecardProps {
+  document: Record<string, unknown>;
+  profile: RuleProfile;
+}
+
+function scoreColor(score: number) {
+  if (score >= 75) return "bg-green-600";
+  if (score >= 50) return "bg-amber-500";
+  return "bg-red-600";
+}
+
+export function MemoryScorecard({ document, profile }: MemoryScorecardProps) {
+  const scorecard = useMemo(
+    () => buildMemoryScorecard(document, profile),
+    [document, profile]
+  );
+  const { correctness } = scorecard;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm">Memory scorecard</h4>
+        <span className="text-2xl font-semibold">
+          {scorecard.score}
+          <span className="text-sm text-muted-foreground"> / 100</span>
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-muted">
+        <div
+          className={cn("h-2 rounded-full", scoreColor(scorecard.score))}
+          style={{ width: `${scorecard.score}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Memory answer</TableHead>
+              <TableHead className="w-20">Answer</TableHead>
+              <TableHead className="w-20 text-right">Weight</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scorecard.answers.map(({ field, answer, weight }) => (
+              <TableRow key={field}>
+                <TableCell className="font-mono text-xs">{field}</TableCell>
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      answer === "yes" && "border-green-600 text-green-700",
+                      answer === "no" && "border-red-600 text-red-700"
+                    )}
+                  >
+                    {answer ?? "—"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">{weight}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3 text-sm">
+          <p>
+            <span className="font-semibold">{correctness.fullyCorrect}</span>{" "}
+            of {correctness.promptCount} prompts fully correct (level{" "}
+            {profile.levelOfCorrectness.max})
+            {correctness.average !== null && (
+              <span className="text-muted-foreground">
+                {" "}
+                · average level {correctness.average.toFixed(2)}
+              </span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {correctness.levels.map(({ level, count }) => (
+              <Badge key={level} variant="secondary">
+                Level {level}: {count}
+              </Badge>
+            ))}
+          </div>
+          {correctness.issueTypes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {correctness.issueTypes.map(({ issueType, count }) => (
+                <Badge key={issueType} variant="outline">
+                  {issueType}: {count}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {scorecard.contradictions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">Possible contradictions</h4>
+          {scorecard.contradictions.map((contradiction) => (
+            <Alert
+              key={`${contradiction.field}-${contradiction.message}`}
+              className="border-amber-500/50 text-amber-700 [&>svg]:text-amber-600 dark:text-amber-400"
+            >
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">
+                  {contradiction.field}
+                </Badge>
+                {contradiction.message}
+              </AlertDescription>
+            </Alert>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
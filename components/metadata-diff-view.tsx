@@ -0,0 +1,287 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Download, GitCompare } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { downloadFile } from "@/lib/download";
+import { formatDiagnostic, parseJsonWithDiagnostics } from "@/lib/json-parser";
+import {
+  countChanges,
+  diffMetadata,
+  formatDiffMarkdown,
+  formatDiffValue,
+  promptLabel,
+  type ChangeKind,
+  type FieldChange,
+  type MetadataDiff,
+  type PromptAlignment,
+  type PromptStatus,
+} from "@/lib/metadata-diff";
+import { cn } from "@/lib/utils";
+
+const KIND_STYLES: Record<ChangeKind | PromptStatus, string> = {
+  added: "border-green-600 text-green-700",
+  removed: "border-red-600 text-red-700",
+  changed: "border-amber-500 text-amber-700",
+  unchanged: "text-muted-foreground",
+};
+
+function ChangeTable({ changes }: { changes: FieldChange[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-48">Field</TableHead>
+          <TableHead className="w-24">Change</TableHead>
+          <TableHead>Original</TableHead>
+          <TableHead>Corrected</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.path}>
+            <TableCell className="font-mono text-xs">{change.path}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={KIND_STYLES[change.kind]}>
+                {change.kind}
+              </Badge>
+            </TableCell>
+            <TableCell className="font-mono text-xs break-all">
+              {formatDiffValue(change.before)}
+            </TableCell>
+            <TableCell className="font-mono text-xs break-all">
+              {formatDiffValue(change.after)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function DiffSection({
+  title,
+  changes,
+}: {
+  title: string;
+  changes: FieldChange[];
+}) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm">{title}</h4>
+      {changes.length > 0 ? (
+        <ChangeTable changes={changes} />
+      ) : (
+        <p className="text-sm text-muted-foreground">No changes</p>
+      )}
+    </div>
+  );
+}
+
+function parseSide(label: string, text: string) {
+  const { value, diagnostics } = parseJsonWithDiagnostics(text);
+  if (diagnostics.length === 0) return { value, error: null };
+  return { value, error: `${label}: ${formatDiagnostic(diagnostics[0])}` };
+}
+
+export function MetadataDiffView() {
+  const [original, setOriginal] = useState("");
+  const [corrected, setCorrected] = useState("");
+  const [alignBy, setAlignBy] = useState<PromptAlignment>("index");
+  const [diff, setDiff] = useState<MetadataDiff | null>(null);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const compare = (alignment = alignBy) => {
+    const before = parseSide("Original", original);
+    const after = parseSide("Corrected", corrected);
+    const errors = [before.error, after.error].filter(
+      (error): error is string => error !== null
+    );
+    setParseErrors(errors);
+    setDiff(
+      errors.length === 0
+        ? diffMetadata(before.value, after.value, alignment)
+        : null
+    );
+  };
+
+  const prompts =
+    diff?.prompts.filter(
+      (prompt) => showUnchanged || prompt.status !== "unchanged"
+    ) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="diff-original">Original</Label>
+          <Textarea
+            id="diff-original"
+            placeholder="Paste the contributor's original metadata..."
+            value={original}
+            onChange={(e) => setOriginal(e.target.value)}
+            className="min-h-[200px] font-mono text-sm"
+          />
+        </div>
+        <div>
+          <Label htmlFor="diff-corrected">Corrected</Label>
+          <Textarea
+            id="diff-corrected"
+            placeholder="Paste the corrected metadata..."
+            value={corrected}
+            onChange={(e) => setCorrected(e.target.value)}
+            className="min-h-[200px] font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-56">
+          <Label htmlFor="diff-align">Align prompts by</Label>
+          <Select
+            value={alignBy}
+            onValueChange={(value) => {
+              setAlignBy(value as PromptAlignment);
+              if (diff) compare(value as PromptAlignment);
+            }}
+          >
+            <SelectTrigger id="diff-align">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="index">Position in the array</SelectItem>
+              <SelectItem value="prompt">Prompt text</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={() => compare()} className="flex-1">
+          <GitCompare className="h-4 w-4 mr-2" />
+          Compare
+        </Button>
+      </div>
+
+      {parseErrors.map((error) => (
+        <Alert key={error} variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ))}
+
+      {diff && (
+        <Card className="p-4 space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{countChanges(diff)} changes</Badge>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="diff-show-unchanged"
+                checked={showUnchanged}
+                onCheckedChange={(checked) =>
+                  setShowUnchanged(checked === true)
+                }
+              />
+              <Label
+                htmlFor="diff-show-unchanged"
+                className="text-sm font-normal text-muted-foreground"
+              >
+                Show unchanged prompts
+              </Label>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  downloadFile(
+                    "metadata-diff.json",
+                    JSON.stringify(diff, null, 2),
+                    "application/json"
+                  )
+                }
+              >
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  downloadFile(
+                    "metadata-diff.md",
+                    formatDiffMarkdown(diff),
+                    "text/markdown"
+                  )
+                }
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Markdown
+              </Button>
+            </div>
+          </div>
+
+          <DiffSection title="Top-level fields" changes={diff.fields} />
+          <DiffSection title="Codebase" changes={diff.codebase} />
+          <DiffSection title="Memory" changes={diff.memory} />
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm">Prompts</h4>
+            {prompts.length === 0 && (
+              <p className="text-sm text-muted-foreground">No changes</p>
+            )}
+            {prompts.map((prompt) => (
+              <div
+                key={`${prompt.beforeIndex}-${prompt.afterIndex}`}
+                className={cn(
+                  "rounded-md border p-3 space-y-2",
+                  prompt.status === "added" && "border-green-600/50",
+                  prompt.status === "removed" && "border-red-600/50"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs">
+                    {promptLabel(prompt)}
+                  </span>
+                  <Badge
+                    variant="outline"
+                    className={KIND_STYLES[prompt.status]}
+                  >
+                    {prompt.status}
+                  </Badge>
+                </div>
+                {prompt.text && prompt.status !== "changed" && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {prompt.text}
+                  </p>
+                )}
+                {prompt.changes.length > 0 && (
+                  <ChangeTable changes={prompt.changes} />
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
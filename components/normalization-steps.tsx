@@ -0,0 +1,47 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  NORMALIZATION_STEP_IDS,
+  NORMALIZATION_STEPS,
+  type NormalizationStepId,
+} from "@/lib/text-normalization";
+
+interface NormalizationStepsProps {
+  value: NormalizationStepId[];
+  onValueChange: (value: NormalizationStepId[]) => void;
+}
+
+export function NormalizationSteps({
+  value,
+  onValueChange,
+}: NormalizationStepsProps) {
+  const toggle = (id: NormalizationStepId, checked: boolean) => {
+    onValueChange(
+      checked ? [...value, id] : value.filter((step) => step !== id)
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+      <span className="text-sm text-muted-foreground">Copy with:</span>
+      {NORMALIZATION_STEP_IDS.map((id) => (
+        <div
+          key={id}
+          className="flex items-center gap-2"
+          title={NORMALIZATION_STEPS[id].description}
+        >
+          <Checkbox
+            id={`normalize-${id}`}
+            checked={value.includes(id)}
+            onCheckedChange={(checked) => toggle(id, checked === true)}
+          />
+          <Label htmlFor={`normalize-${id}`} className="text-sm font-normal">
+            {NORMALIZATION_STEPS[id].label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
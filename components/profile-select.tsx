@@ -0,0 +1,37 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RULE_PROFILES } from "@/lib/profiles";
+
+interface ProfileSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+export function ProfileSelect({
+  id,
+  value,
+  onValueChange,
+}: ProfileSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {RULE_PROFILES.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name} — {profile.jiraPrefix}, choice {profile.choice.min}–
+            {profile.choice.max}, correctness {profile.levelOfCorrectness.min}–
+            {profile.levelOfCorrectness.max}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
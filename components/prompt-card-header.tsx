@@ -0,0 +1,129 @@
+"use client";
+
+import type { DragEvent } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  ChevronDown,
+  ChevronRight,
+  CopyPlus,
+  GripVertical,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PromptCardHeaderProps {
+  index: number;
+  count: number;
+  collapsed: boolean;
+  // First line of the prompt text, shown while the card is collapsed
+  summary?: string;
+  onToggleCollapsed: () => void;
+  onMove: (to: number) => void;
+  onInsert: (at: number) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  onDragStart: (event: DragEvent<HTMLElement>) => void;
+  onDragEnd: () => void;
+}
+
+export function PromptCardHeader({
+  index,
+  count,
+  collapsed,
+  summary,
+  onToggleCollapsed,
+  onMove,
+  onInsert,
+  onDuplicate,
+  onRemove,
+  onDragStart,
+  onDragEnd,
+}: PromptCardHeaderProps) {
+  const actions = [
+    {
+      label: "Move up (Alt+↑)",
+      icon: ArrowUp,
+      disabled: index === 0,
+      onClick: () => onMove(index - 1),
+    },
+    {
+      label: "Move down (Alt+↓)",
+      icon: ArrowDown,
+      disabled: index === count - 1,
+      onClick: () => onMove(index + 1),
+    },
+    {
+      label: "Insert prompt above",
+      icon: BetweenHorizontalStart,
+      onClick: () => onInsert(index),
+    },
+    {
+      label: "Insert prompt below",
+      icon: BetweenHorizontalEnd,
+      onClick: () => onInsert(index + 1),
+    },
+    { label: "Duplicate prompt", icon: CopyPlus, onClick: onDuplicate },
+  ];
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        title="Drag to reorder"
+        className="cursor-grab text-muted-foreground active:cursor-grabbing"
+      >
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <button
+        type="button"
+        aria-expanded={!collapsed}
+        onClick={onToggleCollapsed}
+        className="flex min-w-0 flex-1 items-center gap-1 text-left"
+      >
+        {collapsed ? (
+          <ChevronRight className="h-4 w-4 shrink-0" />
+        ) : (
+          <ChevronDown className="h-4 w-4 shrink-0" />
+        )}
+        <h4 className="shrink-0 font-medium">Prompt {index + 1}</h4>
+        {collapsed && summary && (
+          <span className="truncate text-sm text-muted-foreground">
+            — {summary}
+          </span>
+        )}
+      </button>
+      <div className="flex shrink-0 gap-1">
+        {actions.map(({ label, icon: Icon, disabled, onClick }) => (
+          <Button
+            key={label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            title={label}
+            aria-label={label}
+            disabled={disabled}
+            onClick={onClick}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        {count > 1 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            aria-label="Remove prompt"
+            onClick={onRemove}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { downloadFile } from "@/lib/download";
+import {
+  PROMPT_EXPORT_FORMATS,
+  type PromptExportFormat,
+} from "@/lib/prompt-export";
+
+interface PromptExportButtonsProps {
+  prompts: unknown[];
+  // File name without extension
+  baseName: string;
+}
+
+export function PromptExportButtons({
+  prompts,
+  baseName,
+}: PromptExportButtonsProps) {
+  return (
+    <div className="flex gap-2">
+      {(Object.keys(PROMPT_EXPORT_FORMATS) as PromptExportFormat[]).map(
+        (format) => {
+          const {
+            label,
+            extension,
+            type,
+            format: formatPrompts,
+          } = PROMPT_EXPORT_FORMATS[format];
+          return (
+            <Button
+              key={format}
+              size="sm"
+              variant="outline"
+              className="h-8 px-2"
+              onClick={() =>
+                downloadFile(
+                  `${baseName}.${extension}`,
+                  formatPrompts(prompts),
+                  type
+                )
+              }
+            >
+              <Download className="h-3 w-3 mr-1" />
+              {label}
+            </Button>
+          );
+        }
+      )}
+    </div>
+  );
+}
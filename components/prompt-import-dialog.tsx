@@ -0,0 +1,203 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, ClipboardList } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_PROMPT_DELIMITER,
+  PROMPT_SPLIT_MODES,
+  splitPrompts,
+  type PromptSplitMode,
+} from "@/lib/prompt-import";
+
+interface PromptImportDialogProps {
+  onImport: (prompts: string[]) => void;
+}
+
+export function PromptImportDialog({ onImport }: PromptImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<PromptSplitMode>("auto");
+  const [delimiter, setDelimiter] = useState(DEFAULT_PROMPT_DELIMITER);
+  const [includePreamble, setIncludePreamble] = useState(false);
+
+  const split = useMemo(() => {
+    try {
+      return { ...splitPrompts(text, mode, delimiter), error: null };
+    } catch (error) {
+      return {
+        mode: null,
+        prompts: [],
+        preamble: undefined,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [text, mode, delimiter]);
+  const prompts =
+    includePreamble && split.preamble
+      ? [split.preamble, ...split.prompts]
+      : split.prompts;
+  const count = prompts.length;
+
+  const importPrompts = () => {
+    onImport(prompts);
+    setOpen(false);
+    setText("");
+    setIncludePreamble(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <ClipboardList className="h-4 w-4 mr-2" />
+          Import prompts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import prompts</DialogTitle>
+          <DialogDescription>
+            Paste the session&apos;s prompts from a document or transcript. Each
+            one is added as a new prompt with the default use case and level of
+            correctness.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="prompt-import-mode">Split by</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as PromptSplitMode)}
+            >
+              <SelectTrigger id="prompt-import-mode" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PROMPT_SPLIT_MODES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {(mode === "delimiter" ||
+            (mode === "auto" && split.mode === "delimiter")) && (
+            <div className="space-y-2">
+              <Label htmlFor="prompt-import-delimiter">Delimiter line</Label>
+              <Input
+                id="prompt-import-delimiter"
+                className="w-32 font-mono"
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value)}
+              />
+            </div>
+          )}
+          {mode === "auto" && split.mode && text.trim() !== "" && (
+            <Badge variant="secondary" className="mb-2">
+              Detected: {PROMPT_SPLIT_MODES[split.mode]}
+            </Badge>
+          )}
+        </div>
+
+        <Textarea
+          className="min-h-[160px] font-mono text-sm"
+          placeholder={`## Prompt 1\nSet up the project...\n\n## Prompt 2\nAdd tests for...`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+
+        {split.error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{split.error}</AlertDescription>
+          </Alert>
+        ) : (
+          (count > 0 || split.preamble) && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                Preview: {count} prompt{count !== 1 ? "s" : ""}
+              </h4>
+              {split.preamble && (
+                <div className="space-y-2 rounded-md border border-dashed px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="prompt-import-preamble"
+                      checked={includePreamble}
+                      onCheckedChange={(checked) =>
+                        setIncludePreamble(checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor="prompt-import-preamble"
+                      className="text-sm font-normal"
+                    >
+                      Import the text before the first heading as prompt 1
+                    </Label>
+                  </div>
+                  {!includePreamble && (
+                    <p className="line-clamp-3 whitespace-pre-wrap break-words text-muted-foreground">
+                      {split.preamble}
+                    </p>
+                  )}
+                </div>
+              )}
+              <ol className="max-h-60 space-y-2 overflow-y-auto">
+                {prompts.map((prompt, index) => (
+                  <li
+                    key={index}
+                    className="flex gap-2 rounded-md border px-3 py-2 text-sm"
+                  >
+                    <span className="shrink-0 font-medium text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <span className="line-clamp-3 whitespace-pre-wrap break-words">
+                      {prompt}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+          >
+            Cancel
+          </Button>
+          <Button type="button" disabled={count === 0} onClick={importPrompts}>
+            Add {count} prompt{count !== 1 ? "s" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
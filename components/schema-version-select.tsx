@@ -0,0 +1,38 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SCHEMA_VERSIONS, type SchemaVersionId } from "@/lib/schema-versions";
+
+interface SchemaVersionSelectProps<T extends string> {
+  id?: string;
+  value: T;
+  onValueChange: (value: T) => void;
+  allowAuto?: boolean;
+}
+
+export function SchemaVersionSelect<T extends SchemaVersionId | "auto">({
+  id,
+  value,
+  onValueChange,
+  allowAuto = false,
+}: SchemaVersionSelectProps<T>) {
+  return (
+    <Select value={value} onValueChange={(next) => onValueChange(next as T)}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAuto && <SelectItem value="auto">Auto-detect</SelectItem>}
+        {SCHEMA_VERSIONS.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {version.label} — {version.description}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, LayoutTemplate, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { useTemplateLibrary } from "@/hooks/use-template-library";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import type { MetadataFormData } from "@/lib/metadata-schema";
+import type { MetadataTemplate } from "@/lib/metadata-templates";
+
+type TemplateLibrary = ReturnType<typeof useTemplateLibrary>;
+
+interface TemplatesPanelProps {
+  library: TemplateLibrary;
+  getValues: () => MetadataFormData;
+  onApply: (template: MetadataTemplate) => void;
+}
+
+function describeTemplate({ values }: MetadataTemplate) {
+  const slots = values.prompts?.length ?? 0;
+  return [
+    values.workflow?.replace("_", " "),
+    values.programming_language,
+    `${slots} prompt slot${slots !== 1 ? "s" : ""}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function TemplatesPanel({
+  library,
+  getValues,
+  onApply,
+}: TemplatesPanelProps) {
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const saveCurrent = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      await library.saveFromValues(trimmed, getValues());
+      setName("");
+      toast({
+        title: "Template saved",
+        description: `"${trimmed}" is now in the template library`,
+      });
+    } catch (error) {
+      showError("Could not save template", error);
+    }
+  };
+
+  const importTemplates = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = await library.importFile(await file.text());
+      toast({
+        title: "Templates imported",
+        description: `${imported.length} template${imported.length !== 1 ? "s" : ""} added or updated`,
+      });
+    } catch (error) {
+      showError("Could not import templates", error);
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Templates</h3>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={library.templates.length === 0}
+            onClick={() =>
+              downloadFile(
+                "metadata-templates.json",
+                library.exportAll(),
+                "application/json"
+              )
+            }
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={!library.isAvailable}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              importTemplates(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {!library.isAvailable ? (
+        <p className="text-sm text-muted-foreground">
+          Templates are unavailable because this browser blocks IndexedDB.
+        </p>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            className="h-9"
+            placeholder="Template name, e.g. existing codebase, 5-prompt debugging"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                saveCurrent();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            size="sm"
+            className="h-9"
+            disabled={!name.trim()}
+            onClick={saveCurrent}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save current form
+          </Button>
+        </div>
+      )}
+
+      {library.templates.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {library.templates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm"
+            >
+              <LayoutTemplate className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{template.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeTemplate(template)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onApply(template)}
+                >
+                  Apply
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-label="Delete template"
+                  onClick={() =>
+                    library
+                      .removeTemplate(template)
+                      .catch((error) =>
+                        showError("Could not delete template", error)
+                      )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, Info, type LucideIcon } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { JsonRange } from "@/lib/json-parser";
+import { cn } from "@/lib/utils";
+import {
+  countBySeverity,
+  groupValidationErrors,
+  type ValidationError,
+} from "@/lib/validate-metadata";
+import { SEVERITIES, type Severity } from "@/lib/validation-rules";
+
+interface ValidationErrorListProps {
+  errors: ValidationError[];
+  onLocate?: (location: JsonRange) => void;
+}
+
+const SEVERITY_STYLES: Record<
+  Severity,
+  { icon: LucideIcon; className?: string; variant?: "destructive" }
+> = {
+  error: { icon: AlertCircle, variant: "destructive" },
+  warning: {
+    icon: AlertTriangle,
+    className:
+      "border-amber-500/50 text-amber-700 [&>svg]:text-amber-600 dark:text-amber-400",
+  },
+  info: { icon: Info },
+};
+
+const ALL_RULES = "all";
+
+export function ValidationErrorList({
+  errors,
+  onLocate,
+}: ValidationErrorListProps) {
+  const [hiddenSeverities, setHiddenSeverities] = useState<Severity[]>([]);
+  const [ruleFilter, setRuleFilter] = useState(ALL_RULES);
+
+  const counts = countBySeverity(errors);
+  const ruleIds = [...new Set(errors.map((error) => error.ruleId))].sort();
+  // A new check can drop the selected rule (and with it the rule select), so
+  // fall back to all rules rather than leave an empty list behind
+  if (ruleFilter !== ALL_RULES && !ruleIds.includes(ruleFilter)) {
+    setRuleFilter(ALL_RULES);
+  }
+  const visibleErrors = errors.filter(
+    (error) =>
+      !hiddenSeverities.includes(error.severity) &&
+      (ruleFilter === ALL_RULES || error.ruleId === ruleFilter)
+  );
+  const groupedErrors = groupValidationErrors(visibleErrors);
+
+  const toggleSeverity = (severity: Severity) => {
+    setHiddenSeverities((current) =>
+      current.includes(severity)
+        ? current.filter((hidden) => hidden !== severity)
+        : [...current, severity]
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm text-muted-foreground mr-auto">
+          Found {errors.length} finding{errors.length !== 1 ? "s" : ""}:
+        </p>
+        {SEVERITIES.filter((severity) => counts[severity] > 0).map(
+          (severity) => (
+            <Button
+              key={severity}
+              type="button"
+              size="sm"
+              variant={
+                hiddenSeverities.includes(severity) ? "ghost" : "outline"
+              }
+              className={cn(
+                "h-7 text-xs",
+                hiddenSeverities.includes(severity) && "line-through"
+              )}
+              aria-pressed={!hiddenSeverities.includes(severity)}
+              onClick={() => toggleSeverity(severity)}
+            >
+              {counts[severity]} {severity}
+              {counts[severity] !== 1 ? "s" : ""}
+            </Button>
+          )
+        )}
+        {ruleIds.length > 1 && (
+          <Select
+            value={ruleFilter}
+            onValueChange={(value) => setRuleFilter(value)}
+          >
+            <SelectTrigger className="h-7 w-[220px] text-xs">
+              <SelectValue placeholder="All rules" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_RULES}>All rules</SelectItem>
+              {ruleIds.map((ruleId) => (
+                <SelectItem key={ruleId} value={ruleId}>
+                  {ruleId}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {visibleErrors.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No findings match the current filters.
+        </p>
+      )}
+
+      {Object.entries(groupedErrors).map(([section, sectionErrors]) => (
+        <div key={section} className="space-y-2">
+          <h4 className="font-semibold text-sm">
+            {section === "general" ? "General Issues" : section}
+          </h4>
+          <div className="space-y-2">
+            {sectionErrors.map((error, idx) => {
+              const style = SEVERITY_STYLES[error.severity];
+              const Icon = style.icon;
+              return (
+                <Alert
+                  key={idx}
+                  variant={style.variant}
+                  className={style.className}
+                >
+                  <Icon className="h-4 w-4" />
+                  <AlertDescription className="flex items-center gap-2">
+                    {error.location && onLocate ? (
+                      <button
+                        type="button"
+                        title="Show in input"
+                        onClick={() => onLocate(error.location!)}
+                      >
+                        <Badge
+                          variant="outline"
+                          className="text-xs cursor-pointer hover:bg-accent"
+                        >
+                          {error.field}
+                        </Badge>
+                      </button>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">
+                        {error.field}
+                      </Badge>
+                    )}
+                    {error.location && (
+                      <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                        line {error.location.start.line}
+                      </span>
+                    )}
+                    {error.message}
+                    <Badge
+                      variant="secondary"
+                      className="ml-auto font-mono text-[10px]"
+                    >
+                      {error.ruleId}
+                    </Badge>
+                  </AlertDescription>
+                </Alert>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import * as React from "react";
+import type { UseFormReturn } from "react-hook-form";
+
+import {
+  deleteDraft,
+  listDrafts,
+  saveDraft,
+  type MetadataDraft,
+} from "@/lib/drafts-store";
+import type { MetadataFormData } from "@/lib/metadata-schema";
+import { RULE_PROFILES } from "@/lib/profiles";
+
+const AUTOSAVE_DELAY = 1000;
+
+export type DraftSaveStatus = "idle" | "pending" | "saved" | "error";
+
+function defaultDraftName(values: MetadataFormData) {
+  const jiraId = values.jira_id?.trim();
+  const isBarePrefix = RULE_PROFILES.some(
+    (profile) => profile.jiraPrefix === jiraId
+  );
+  if (jiraId && !isBarePrefix) return jiraId;
+  return `Untitled draft ${new Date().toLocaleString()}`;
+}
+
+/**
+ * Persists the generator form to IndexedDB as the user types. Edits go to
+ * the current draft; the first edit after starting fresh creates a new one.
+ */
+export function useDraftAutosave(form: UseFormReturn<MetadataFormData>) {
+  const [drafts, setDrafts] = React.useState<MetadataDraft[]>([]);
+  const [currentDraft, setCurrentDraft] = React.useState<MetadataDraft | null>(
+    null
+  );
+  const [restoreCandidate, setRestoreCandidate] =
+    React.useState<MetadataDraft | null>(null);
+  const [status, setStatus] = React.useState<DraftSaveStatus>("idle");
+  const [isAvailable, setIsAvailable] = React.useState(true);
+
+  const currentDraftRef = React.useRef<MetadataDraft | null>(null);
+  const lastSavedRef = React.useRef(JSON.stringify(form.getValues()));
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+  const loadingRef = React.useRef(false);
+
+  const selectDraft = (draft: MetadataDraft | null) => {
+    currentDraftRef.current = draft;
+    setCurrentDraft(draft);
+  };
+
+  const upsertDraft = (draft: MetadataDraft) => {
+    setDrafts((current) => [
+      draft,
+      ...current.filter((existing) => existing.id !== draft.id),
+    ]);
+  };
+
+  const persist = React.useCallback(async () => {
+    const values = form.getValues();
+    const serialized = JSON.stringify(values);
+    const now = Date.now();
+    const previous = currentDraftRef.current;
+    const draft: MetadataDraft = {
+      id: previous?.id ?? crypto.randomUUID(),
+      name: previous?.name ?? defaultDraftName(values),
+      values: JSON.parse(serialized),
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+    };
+    // Claimed before the write, so a save that overlaps it updates the same
+    // draft rather than creating a second one
+    currentDraftRef.current = draft;
+    const isCurrent = () => currentDraftRef.current?.id === draft.id;
+    try {
+      await saveDraft(draft);
+      // Another draft was resumed or started while this one was written;
+      // the form no longer holds its values
+      if (!isCurrent()) return;
+      lastSavedRef.current = serialized;
+      selectDraft(draft);
+      upsertDraft(draft);
+      setStatus("saved");
+    } catch {
+      if (isCurrent()) setStatus("error");
+    }
+  }, [form]);
+
+  React.useEffect(() => {
+    listDrafts()
+      .then((stored) => {
+        setDrafts(stored);
+        setRestoreCandidate(stored[0] ?? null);
+      })
+      .catch(() => setIsAvailable(false));
+  }, []);
+
+  React.useEffect(() => {
+    const subscription = form.watch(() => {
+      if (loadingRef.current) return;
+      if (JSON.stringify(form.getValues()) === lastSavedRef.current) return;
+      setStatus("pending");
+      clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(persist, AUTOSAVE_DELAY);
+    });
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(timerRef.current);
+    };
+  }, [form, persist]);
+
+  const hasUnsavedChanges = status === "pending" || status === "error";
+
+  React.useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [hasUnsavedChanges]);
+
+  // Swap the form contents without the reset itself counting as an edit
+  const loadValues = (values: MetadataFormData) => {
+    clearTimeout(timerRef.current);
+    loadingRef.current = true;
+    form.reset(values);
+    loadingRef.current = false;
+    lastSavedRef.current = JSON.stringify(form.getValues());
+    setStatus("idle");
+  };
+
+  const resumeDraft = (draft: MetadataDraft) => {
+    setRestoreCandidate(null);
+    selectDraft(draft);
+    loadValues(draft.values);
+  };
+
+  const startNewDraft = (values: MetadataFormData) => {
+    setRestoreCandidate(null);
+    selectDraft(null);
+    loadValues(values);
+  };
+
+  const renameDraft = async (draft: MetadataDraft, name: string) => {
+    const renamed = { ...draft, name };
+    await saveDraft(renamed);
+    if (currentDraftRef.current?.id === draft.id) selectDraft(renamed);
+    setDrafts((current) =>
+      current.map((existing) => (existing.id === draft.id ? renamed : existing))
+    );
+  };
+
+  const removeDraft = async (draft: MetadataDraft) => {
+    await deleteDraft(draft.id);
+    if (currentDraftRef.current?.id === draft.id) selectDraft(null);
+    if (restoreCandidate?.id === draft.id) setRestoreCandidate(null);
+    setDrafts((current) =>
+      current.filter((existing) => existing.id !== draft.id)
+    );
+  };
+
+  return {
+    drafts,
+    isAvailable,
+    currentDraft,
+    status,
+    hasUnsavedChanges,
+    restoreCandidate,
+    dismissRestore: () => setRestoreCandidate(null),
+    resumeDraft,
+    startNewDraft,
+    loadValues,
+    renameDraft,
+    removeDraft,
+  };
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import * as React from "react";
+
+import { DEFAULT_PROFILE, findProfile, type RuleProfile } from "@/lib/profiles";
+
+const STORAGE_KEY = "metadata-check-app:rule-profile";
+
+// The active rule profile, remembered across visits
+export function useRuleProfile() {
+  const [profile, setProfile] = React.useState<RuleProfile>(DEFAULT_PROFILE);
+
+  React.useEffect(() => {
+    const stored = findProfile(localStorage.getItem(STORAGE_KEY) ?? "");
+    if (stored) setProfile(stored);
+  }, []);
+
+  const selectProfile = React.useCallback((id: string) => {
+    const next = findProfile(id);
+    if (!next) return;
+    localStorage.setItem(STORAGE_KEY, id);
+    setProfile(next);
+  }, []);
+
+  return [profile, selectProfile] as const;
+}
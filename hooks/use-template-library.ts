@@ -0,0 +1,77 @@
+"use client";
+
+import * as React from "react";
+
+import {
+  deleteTemplate,
+  listTemplates,
+  saveTemplate,
+} from "@/lib/drafts-store";
+import type { MetadataFormData } from "@/lib/metadata-schema";
+import {
+  createTemplate,
+  parseTemplateFile,
+  serializeTemplates,
+  type MetadataTemplate,
+} from "@/lib/metadata-templates";
+
+function byName(a: MetadataTemplate, b: MetadataTemplate) {
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Named generator templates stored in IndexedDB next to the drafts, with
+ * file export/import so a team can share one library.
+ */
+export function useTemplateLibrary() {
+  const [templates, setTemplates] = React.useState<MetadataTemplate[]>([]);
+  const [isAvailable, setIsAvailable] = React.useState(true);
+
+  React.useEffect(() => {
+    listTemplates()
+      .then(setTemplates)
+      .catch(() => setIsAvailable(false));
+  }, []);
+
+  const upsertTemplates = (added: MetadataTemplate[]) => {
+    setTemplates((current) =>
+      [
+        ...current.filter(
+          (template) => !added.some((other) => other.id === template.id)
+        ),
+        ...added,
+      ].sort(byName)
+    );
+  };
+
+  const saveFromValues = async (name: string, values: MetadataFormData) => {
+    const template = createTemplate(name, values);
+    await saveTemplate(template);
+    upsertTemplates([template]);
+    return template;
+  };
+
+  const removeTemplate = async (template: MetadataTemplate) => {
+    await deleteTemplate(template.id);
+    setTemplates((current) =>
+      current.filter((existing) => existing.id !== template.id)
+    );
+  };
+
+  // Templates with an ID already in the library replace the stored copy
+  const importFile = async (text: string) => {
+    const imported = parseTemplateFile(text);
+    for (const template of imported) await saveTemplate(template);
+    upsertTemplates(imported);
+    return imported;
+  };
+
+  return {
+    templates,
+    isAvailable,
+    saveFromValues,
+    removeTemplate,
+    importFile,
+    exportAll: () => serializeTemplates(templates),
+  };
+}
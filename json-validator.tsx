@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -20,12 +20,11 @@ import {
   Copy,
   Plus,
   ExternalLink,
-  Trash2,
+  PencilLine,
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import {
   Form,
   FormControl,
@@ -42,125 +41,56 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-
-interface ValidationError {
-  field: string;
-  message: string;
-  index?: number;
-}
-
-const metadataSchema = z
-  .object({
-    uuid: z.string().min(1, "UUID is required"),
-    jira_id: z
-      .string()
-      .min(1, "JIRA ID is required")
-      .startsWith("ANTHS-", "JIRA ID must start with 'ANTHS-'"),
-    programming_language: z.string().min(1, "Programming language is required"),
-    model: z.literal(
-      "83aa91117c2fac3e25a3757eaa59f29ed3aeaf4dd7d3d384c673086c321e0644"
-    ),
-    root_gdrive: z.string().url("Must be a valid URL"),
-    workflow: z.enum(["new_codebase", "existing_codebase"]),
-    codebase: z.object({
-      url: z.string().optional(),
-      description: z.string().optional(),
-    }),
-    prompts: z.array(
-      z
-        .object({
-          hfi_id: z.string(),
-          prompt: z.string().min(1, "Prompt is required"),
-          choice: z.number().min(0).max(7),
-          gdrive: z.string().url("Must be a valid URL"),
-          usecase: z.enum([
-            "initial_development",
-            "feature_implementation",
-            "debugging_fixes",
-            "optimization_testing",
-          ]),
-          comment: z.string().min(1, "Comment is required"),
-          issue_type: z
-            .enum([
-              "missing_memory",
-              "technical_inconsistency",
-              "tool",
-              "code_correctness",
-              "setup",
-              "other",
-            ])
-            .or(z.literal(""))
-            .optional(),
-          issue_comment: z.string().or(z.literal("")).optional(),
-          issue_source: z.string().or(z.literal("")).optional(),
-          level_of_correctness: z.number().min(-1).max(2),
-          level_of_correctness_comment: z
-            .string()
-            .min(1, "Level of correctness comment is required"),
-          memory_comment: z.string().min(1, "Memory comment is required"),
-        })
-        .refine(
-          (data) => {
-            if (data.level_of_correctness !== 2) {
-              return (
-                data.issue_type &&
-                data.issue_comment &&
-                data.issue_source &&
-                data.issue_comment.trim() !== "" &&
-                data.issue_source.trim() !== "" &&
-                data.issue_type.trim() !== ""
-              );
-            }
-            // If level_of_correctness is 2, allow empty string or undefined for issue fields
-            return true;
-          },
-          {
-            message:
-              "Issue type, comment, and source are required when level of correctness is not 2",
-            path: ["issue_type"],
-          }
-        )
-    ),
-    memory: z.object({
-      memory_comment: z.string().min(1, "Memory comment is required"),
-      memory_naturality: z.enum(["yes", "no"]),
-      context_accuracy: z.enum(["yes", "no"]),
-      code_referencing: z.enum(["yes", "no"]),
-      remembers_debugging_history: z.enum(["yes", "no"]),
-      maintains_coding_style: z.enum(["yes", "no"]),
-      remembers_environment: z.enum(["yes", "no"]),
-      avoids_referencing_irrelevant_memory: z.enum(["yes", "no"]),
-      avoids_storing_irrelevant_memory: z.enum(["yes", "no"]),
-    }),
-  })
-  .refine(
-    (data) => {
-      if (data.workflow === "existing_codebase") {
-        return (
-          data.codebase &&
-          typeof data.codebase.url === "string" &&
-          data.codebase.url.trim() !== "" &&
-          typeof data.codebase.description === "string" &&
-          data.codebase.description.trim() !== ""
-        );
-      } else {
-        // For new_codebase, codebase fields must be empty or undefined
-        return (
-          !data.codebase ||
-          ((data.codebase.url === undefined || data.codebase.url === "") &&
-            (data.codebase.description === undefined ||
-              data.codebase.description === ""))
-        );
-      }
-    },
-    {
-      message:
-        "For existing codebase workflow, both URL and description are required. For new codebase, both must be empty.",
-      path: ["codebase"],
-    }
-  );
-
-type MetadataFormData = z.infer<typeof metadataSchema>;
+import { useDraftAutosave } from "@/hooks/use-draft-autosave";
+import { useRuleProfile } from "@/hooks/use-rule-profile";
+import { useTemplateLibrary } from "@/hooks/use-template-library";
+import type { JsonRange } from "@/lib/json-parser";
+import {
+  getDefaultMetadataValues,
+  getDefaultPromptValues,
+  toMetadataFormValues,
+  type MetadataFormData,
+} from "@/lib/metadata-schema";
+import { getActiveModels, getModelName } from "@/lib/models";
+import { rangeValues } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  isLegacySchemaVersion,
+  migrateMetadata,
+  resolveSchemaVersion,
+  type SchemaVersion,
+  type SchemaVersionId,
+} from "@/lib/schema-versions";
+import {
+  isPassing,
+  validateJsonText,
+  validateMetadataText,
+  type ValidationError,
+} from "@/lib/validate-metadata";
+import { ValidationErrorList } from "@/components/validation-error-list";
+import { DriveLinkBadge } from "@/components/drive-link-badge";
+import { JsonSchemaTools } from "@/components/json-schema-tools";
+import type { ExternalJsonSchema } from "@/lib/json-schema";
+import { BatchValidator } from "@/components/batch-validator";
+import { PromptCardHeader } from "@/components/prompt-card-header";
+import { PromptImportDialog } from "@/components/prompt-import-dialog";
+import { AutoFixPanel } from "@/components/autofix-panel";
+import { SchemaVersionSelect } from "@/components/schema-version-select";
+import { DraftRestorePrompt, DraftsPanel } from "@/components/drafts-panel";
+import { ProfileSelect } from "@/components/profile-select";
+import { MetadataDiffView } from "@/components/metadata-diff-view";
+import { JsonEditor } from "@/components/json-editor";
+import { PromptExportButtons } from "@/components/prompt-export-buttons";
+import { NormalizationSteps } from "@/components/normalization-steps";
+import { MemoryScorecard } from "@/components/memory-scorecard";
+import { TemplatesPanel } from "@/components/templates-panel";
+import { applyTemplate, type MetadataTemplate } from "@/lib/metadata-templates";
+import {
+  normalizeText,
+  type NormalizationStepId,
+} from "@/lib/text-normalization";
 
 export default function Component() {
   const [jsonInput, setJsonInput] = useState("");
@@ -168,156 +98,158 @@ export default function Component() {
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [extractedPrompts, setExtractedPrompts] = useState<any[]>([]);
-  const validateJson = () => {
-    const validationErrors: ValidationError[] = [];
-
-    try {
-      const data = JSON.parse(jsonInput);
-      const expectedPromptCount = Number.parseInt(promptCount);
-
-      // Check if promptCount is a positive whole number
-      if (
-        !promptCount ||
-        isNaN(expectedPromptCount) ||
-        expectedPromptCount <= 0 ||
-        !Number.isInteger(expectedPromptCount)
-      ) {
-        validationErrors.push({
-          field: "prompt_count",
-          message: "Number of prompts must be a positive whole number",
-        });
-      }
-
-      // Check prompts array length
-      if (!data.prompts || !Array.isArray(data.prompts)) {
-        validationErrors.push({
-          field: "prompts",
-          message: "Prompts array is missing or not an array",
-        });
-      } else if (data.prompts.length !== expectedPromptCount) {
-        validationErrors.push({
-          field: "prompts",
-          message: `Prompts array length (${data.prompts.length}) does not match expected count (${expectedPromptCount})`,
-        });
-      }
+  const [checkedData, setCheckedData] = useState<unknown>(undefined);
+  const [activeTab, setActiveTab] = useState("checker");
+  const [schemaVersion, setSchemaVersion] = useState<
+    SchemaVersionId | "auto"
+  >("auto");
+  const [checkedVersion, setCheckedVersion] = useState<SchemaVersion | null>(
+    null
+  );
+  const [migrationChanges, setMigrationChanges] = useState<string[]>([]);
+  const [externalSchema, setExternalSchema] =
+    useState<ExternalJsonSchema | null>(null);
+  const [checkedSchemaTitle, setCheckedSchemaTitle] = useState<string | null>(
+    null
+  );
+  const [generatorVersion, setGeneratorVersion] = useState<SchemaVersionId>(
+    CURRENT_SCHEMA_VERSION.id
+  );
+  const generatorVersionRef = useRef(generatorVersion);
+  generatorVersionRef.current = generatorVersion;
+  const [profile, selectProfile] = useRuleProfile();
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const [normalizationSteps, setNormalizationSteps] = useState<
+    NormalizationStepId[]
+  >(profile.normalization);
+  const [jsonSelection, setJsonSelection] = useState<JsonRange | null>(null);
 
-      // Validate with Zod schema
-      const result = metadataSchema.safeParse(data);
-      if (!result.success) {
-        result.error.issues.forEach((issue) => {
-          // Convert Zod error to our ValidationError format
-          const field = issue.path.join(".");
-          const promptIndex = field.match(/prompts\.(\d+)/)?.[1];
+  // A fresh object so locating the same range twice still scrolls to it
+  const highlightJsonRange = (range: JsonRange) =>
+    setJsonSelection({ ...range });
 
-          validationErrors.push({
-            field: field,
-            message: issue.message,
-            index: promptIndex ? parseInt(promptIndex) : undefined,
-          });
+  const validateJson = (text = jsonInput, version = schemaVersion) => {
+    // A loaded JSON Schema replaces the built-in metadata rules
+    const { data, errors: validationErrors } = externalSchema
+      ? validateJsonText(text, externalSchema.validate)
+      : validateMetadataText(text, {
+          expectedPromptCount: promptCount,
+          schemaVersion: version,
+          profile: profile.id,
         });
-      }
+    setErrors(validationErrors);
+    const passed = isPassing(validationErrors);
+    setIsValid(passed);
+    setCheckedData(data);
+    setCheckedVersion(
+      externalSchema || data === undefined
+        ? null
+        : resolveSchemaVersion(data, version, profile)
+    );
+    setCheckedSchemaTitle(externalSchema?.title ?? null);
+    setMigrationChanges([]);
 
-      // Check HFI ID matches UUID for each prompt
-      if (data.prompts && Array.isArray(data.prompts) && data.uuid) {
-        data.prompts.forEach((prompt: any, index: number) => {
-          if (prompt.hfi_id !== data.uuid) {
-            validationErrors.push({
-              field: "hfi_id",
-              message: "HFI ID should match the main UUID",
-              index,
-            });
-          }
-        });
-      }
-      setErrors(validationErrors);
-      setIsValid(validationErrors.length === 0);
-
-      // Extract prompts if validation is successful
-      if (
-        validationErrors.length === 0 &&
-        data.prompts &&
-        Array.isArray(data.prompts)
-      ) {
-        setExtractedPrompts(data.prompts);
-      } else {
-        setExtractedPrompts([]);
-      }
-    } catch (error) {
-      validationErrors.push({
-        field: "json",
-        message: "Invalid JSON format",
-      });
-      setErrors(validationErrors);
-      setIsValid(false);
+    // Extract prompts if validation is successful
+    const prompts = (data as { prompts?: unknown } | undefined)?.prompts;
+    if (passed && Array.isArray(prompts)) {
+      setExtractedPrompts(prompts);
+    } else {
+      setExtractedPrompts([]);
     }
-  };
 
-  const groupedErrors = errors.reduce((acc, error) => {
-    const key =
-      error.index !== undefined ? `prompts[${error.index}]` : "general";
-    if (!acc[key]) acc[key] = [];
-    acc[key].push(error);
-    return acc;
-  }, {} as Record<string, ValidationError[]>);
+    const firstLocation = validationErrors.find((error) => error.location);
+    if (firstLocation?.location) highlightJsonRange(firstLocation.location);
+  };
 
   const [generatedJson, setGeneratedJson] = useState<string>("");
 
   const form = useForm<MetadataFormData>({
-    resolver: zodResolver(metadataSchema),
-    defaultValues: {
-      uuid: "",
-      jira_id: "ANTHS-",
-      programming_language: "",
-      model: "83aa91117c2fac3e25a3757eaa59f29ed3aeaf4dd7d3d384c673086c321e0644",
-      root_gdrive: "",
-      workflow: "new_codebase",
-      codebase: {
-        url: "",
-        description: "",
-      },
-      prompts: [
-        {
-          hfi_id: "",
-          prompt: "",
-          choice: 0,
-          gdrive: "",
-          usecase: "initial_development",
-          comment: "",
-          level_of_correctness: 2,
-          level_of_correctness_comment: "",
-          memory_comment: "",
-        },
-      ],
-      memory: {
-        memory_comment: "",
-        memory_naturality: "yes",
-        context_accuracy: "yes",
-        code_referencing: "yes",
-        remembers_debugging_history: "yes",
-        maintains_coding_style: "yes",
-        remembers_environment: "yes",
-        avoids_referencing_irrelevant_memory: "yes",
-        avoids_storing_irrelevant_memory: "yes",
-      },
+    // Validate against whichever schema version and profile are selected,
+    // with the version's own schema_version marker
+    resolver: (values, context, options) => {
+      const version = getSchemaVersion(generatorVersionRef.current);
+      return zodResolver(version.getSchema(profileRef.current))(
+        { ...values, schema_version: version.marker },
+        context,
+        options
+      );
     },
+    defaultValues: getDefaultMetadataValues(profile),
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, move, insert, replace } = useFieldArray({
     control: form.control,
     name: "prompts",
   });
+  // Keyed by field ID so a collapsed card stays collapsed when it moves
+  const [collapsedPrompts, setCollapsedPrompts] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const togglePromptCollapsed = (id: string) => {
+    setCollapsedPrompts((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  // Reordering remounts the moved card's inputs, so focus is put back on
+  // whatever was focused for the keyboard shortcuts
+  const movePrompt = (from: number, to: number) => {
+    if (to < 0 || to >= fields.length || from === to) return;
+    const focused = document.activeElement;
+    move(from, to);
+    requestAnimationFrame(() => {
+      if (focused instanceof HTMLElement) focused.focus();
+    });
+  };
+
+  const insertPrompt = (at: number) => {
+    insert(at, getDefaultPromptValues(profile));
+  };
+
+  const duplicatePrompt = (index: number) => {
+    insert(index + 1, { ...form.getValues(`prompts.${index}`) });
+  };
+
+  const autosave = useDraftAutosave(form);
+  const templateLibrary = useTemplateLibrary();
+
+  // Carry profile-derived defaults (generator values, copy normalization)
+  // over to a new profile
+  const previousProfileRef = useRef(profile);
+  useEffect(() => {
+    const previous = previousProfileRef.current;
+    previousProfileRef.current = profile;
+    if (previous.id === profile.id) return;
+    setNormalizationSteps(profile.normalization);
+    if (!form.formState.isDirty && !autosave.currentDraft) {
+      autosave.loadValues(getDefaultMetadataValues(profile));
+      return;
+    }
+    if (form.getValues("jira_id") === previous.jiraPrefix) {
+      form.setValue("jira_id", profile.jiraPrefix);
+    }
+    if (form.formState.isSubmitted) form.trigger();
+  }, [profile, form, autosave]);
 
   const onSubmit = (data: MetadataFormData) => {
-    // Set hfi_id to match uuid for all prompts
-    const processedData = {
+    // Versions without a marker predate the schema_version field, and
+    // JSON.stringify leaves the undefined marker out
+    const processedData: Partial<MetadataFormData> = {
+      schema_version: getSchemaVersion(generatorVersion).marker,
       ...data,
+      // Set hfi_id to match uuid for all prompts
       prompts: data.prompts.map((prompt) => ({
         ...prompt,
         hfi_id: data.uuid,
       })),
     };
     setGeneratedJson(JSON.stringify(processedData, null, 2));
-    const { toast } = useToast();
     toast({
       title: "Metadata Generated",
       description: "Your metadata JSON has been generated successfully!",
@@ -325,11 +257,85 @@ export default function Component() {
   };
   const { toast } = useToast();
 
-  const copyPromptToClipboard = (prompt: string, index: number) => {
+  // Counts as an edit, so the current draft autosaves the result
+  const applyTemplateToForm = (template: MetadataTemplate) => {
+    form.reset(applyTemplate(form.getValues(), template, profile), {
+      keepDefaultValues: true,
+    });
+    toast({
+      title: "Template applied",
+      description: `Applied "${template.name}"; UUID and JIRA ID were kept`,
+    });
+  };
+
+  // A form holding only the untouched starting prompt is filled rather than
+  // appended to
+  const importPrompts = (texts: string[]) => {
+    const entries = texts.map((prompt) => ({
+      ...getDefaultPromptValues(profile),
+      prompt,
+    }));
+    const current = form.getValues("prompts");
+    const [first] = current;
+    if (
+      current.length === 1 &&
+      first.prompt === "" &&
+      first.hfi_id === "" &&
+      first.gdrive === ""
+    ) {
+      replace(entries);
+    } else {
+      append(entries);
+    }
+    toast({
+      title: "Prompts imported",
+      description: `${entries.length} prompt${entries.length !== 1 ? "s" : ""} added to the form`,
+    });
+  };
+
+  const openInGenerator = () => {
+    // Keep the document's version, so a v2 document isn't written back
+    // without its marker. The ref is read by the validation below.
+    if (checkedVersion) {
+      setGeneratorVersion(checkedVersion.id);
+      generatorVersionRef.current = checkedVersion.id;
+    }
+    // Start a fresh draft so the imported document doesn't overwrite one
+    autosave.startNewDraft(toMetadataFormValues(checkedData, profile));
+    setGeneratedJson("");
+    setActiveTab("generator");
+    // Surface the schema issues on the matching fields right away
+    form.trigger();
+  };
+
+  const applyAutoFixes = (fixed: unknown) => {
+    const text = JSON.stringify(fixed, null, 2);
+    setJsonInput(text);
+    validateJson(text);
+  };
+
+  const migrateToCurrent = () => {
+    const { data, changes } = migrateMetadata(checkedData);
+    const text = JSON.stringify(data, null, 2);
+    setJsonInput(text);
+    setSchemaVersion("auto");
+    validateJson(text, "auto");
+    setMigrationChanges(changes);
+  };
+
+  const checkedModel = (checkedData as { model?: unknown } | undefined)?.model;
+  const checkedJiraId = (checkedData as { jira_id?: unknown } | undefined)
+    ?.jira_id;
+
+  const copyPromptToClipboard = (
+    prompt: string,
+    index: number,
+    raw = false
+  ) => {
     navigator.clipboard.writeText(prompt);
     toast({
       title: "Copied!",
-      description: `Prompt ${index + 1} copied to clipboard`,
+      description: `Prompt ${index + 1}${raw ? " (raw)" : ""} copied to clipboard`,
     });
   };
 
@@ -351,39 +357,77 @@ export default function Component() {
             metadata
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <Tabs defaultValue="checker" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+        <CardContent className="space-y-4">
+          <DraftRestorePrompt
+            autosave={autosave}
+            onRestore={() => setActiveTab("generator")}
+          />
+          <div className="max-w-md">
+            <Label htmlFor="rule-profile">Rule Profile</Label>
+            <ProfileSelect
+              id="rule-profile"
+              value={profile.id}
+              onValueChange={selectProfile}
+            />
+          </div>
+          <Tabs
+            value={activeTab}
+            onValueChange={setActiveTab}
+            className="w-full"
+          >
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="checker">Metadata Checker</TabsTrigger>
               <TabsTrigger value="generator">Metadata Generator</TabsTrigger>
+              <TabsTrigger value="diff">Diff</TabsTrigger>
             </TabsList>{" "}
             <TabsContent value="checker" className="space-y-4">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Left side - Validation inputs */}
                 <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="prompt-count">Number of Prompts</Label>
-                    <Input
-                      id="prompt-count"
-                      type="number"
-                      placeholder="Enter expected number of prompts"
-                      value={promptCount}
-                      onChange={(e) => setPromptCount(e.target.value)}
-                    />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="prompt-count">Number of Prompts</Label>
+                      <Input
+                        id="prompt-count"
+                        type="number"
+                        placeholder="Enter expected number of prompts"
+                        value={promptCount}
+                        onChange={(e) => setPromptCount(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="checker-schema-version">
+                        Schema Version
+                      </Label>
+                      <SchemaVersionSelect
+                        id="checker-schema-version"
+                        value={schemaVersion}
+                        onValueChange={setSchemaVersion}
+                        allowAuto
+                      />
+                    </div>
                   </div>
 
+                  <JsonSchemaTools
+                    schemaVersion={schemaVersion}
+                    profile={profile}
+                    externalSchema={externalSchema}
+                    onExternalSchemaChange={setExternalSchema}
+                  />
+
                   <div>
                     <Label htmlFor="json-input">JSON Data</Label>
-                    <Textarea
+                    <JsonEditor
                       id="json-input"
                       placeholder="Paste your JSON data here..."
                       value={jsonInput}
-                      onChange={(e) => setJsonInput(e.target.value)}
-                      className="min-h-[200px] font-mono text-sm"
+                      onChange={setJsonInput}
+                      findings={errors}
+                      selection={jsonSelection}
                     />
                   </div>
 
-                  <Button onClick={validateJson} className="w-full">
+                  <Button onClick={() => validateJson()} className="w-full">
                     Validate JSON
                   </Button>
                 </div>
@@ -399,6 +443,18 @@ export default function Component() {
                         {extractedPrompts.length} prompts
                       </Badge>
                     </div>
+                    <NormalizationSteps
+                      value={normalizationSteps}
+                      onValueChange={setNormalizationSteps}
+                    />
+                    <PromptExportButtons
+                      prompts={extractedPrompts}
+                      baseName={
+                        typeof checkedJiraId === "string" && checkedJiraId
+                          ? `${checkedJiraId}-prompts`
+                          : "prompts"
+                      }
+                    />
 
                     <div className="space-y-3 max-h-[500px] overflow-y-auto">
                       {extractedPrompts.map((promptObj: any, index: number) => (
@@ -412,6 +468,7 @@ export default function Component() {
                                 <Badge variant="secondary">
                                   Choice: {promptObj.choice}
                                 </Badge>
+                                <DriveLinkBadge url={promptObj.gdrive} />
                               </div>
                               <div className="flex items-center gap-2">
                                 <Button
@@ -419,7 +476,10 @@ export default function Component() {
                                   variant="outline"
                                   onClick={() =>
                                     copyPromptToClipboard(
-                                      promptObj.prompt.replace(/'/g, '"'),
+                                      normalizeText(
+                                        promptObj.prompt,
+                                        normalizationSteps
+                                      ),
                                       index
                                     )
                                   }
@@ -428,6 +488,21 @@ export default function Component() {
                                   <Copy className="h-3 w-3 mr-1" />
                                   Copy
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    copyPromptToClipboard(
+                                      promptObj.prompt,
+                                      index,
+                                      true
+                                    )
+                                  }
+                                  className="h-8 px-2"
+                                >
+                                  <Copy className="h-3 w-3 mr-1" />
+                                  Copy raw
+                                </Button>
                                 {promptObj.gdrive && (
                                   <Button
                                     size="sm"
@@ -444,9 +519,12 @@ export default function Component() {
                               </div>
                             </div>
 
-                            <div className="text-sm text-muted-foreground bg-muted p-3 rounded max-h-32 overflow-y-auto">
-                              {/* replace ' with " */}
-                              {promptObj.prompt.replace(/'/g, '"')}
+                            {/* Previews what "Copy" puts on the clipboard */}
+                            <div className="text-sm text-muted-foreground bg-muted p-3 rounded max-h-32 overflow-y-auto whitespace-pre-wrap">
+                              {normalizeText(
+                                promptObj.prompt,
+                                normalizationSteps
+                              )}
                             </div>
                           </div>
                         </Card>
@@ -455,13 +533,37 @@ export default function Component() {
                   </div>
                 )}
               </div>
+
+              <BatchValidator profile={profile} />
             </TabsContent>
             <TabsContent value="generator" className="space-y-4">
+              <DraftsPanel
+                autosave={autosave}
+                onNewDraft={() => {
+                  autosave.startNewDraft(getDefaultMetadataValues(profile));
+                  setGeneratedJson("");
+                }}
+              />
+              <TemplatesPanel
+                library={templateLibrary}
+                getValues={() => form.getValues()}
+                onApply={applyTemplateToForm}
+              />
               <Form {...form}>
                 <form
                   onSubmit={form.handleSubmit(onSubmit)}
                   className="space-y-6"
                 >
+                  <div className="space-y-2">
+                    <Label htmlFor="generator-schema-version">
+                      Schema Version
+                    </Label>
+                    <SchemaVersionSelect
+                      id="generator-schema-version"
+                      value={generatorVersion}
+                      onValueChange={setGeneratorVersion}
+                    />
+                  </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
@@ -484,7 +586,10 @@ export default function Component() {
                         <FormItem>
                           <FormLabel>JIRA ID</FormLabel>
                           <FormControl>
-                            <Input placeholder="ANTHS-..." {...field} />
+                            <Input
+                              placeholder={`${profile.jiraPrefix}...`}
+                              {...field}
+                            />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -514,9 +619,23 @@ export default function Component() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Model</FormLabel>
-                          <FormControl>
-                            <Input {...field} disabled className="bg-muted" />
-                          </FormControl>
+                          <Select
+                            onValueChange={field.onChange}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="w-full">
+                                <SelectValue placeholder="Select model" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getActiveModels().map((model) => (
+                                <SelectItem key={model.id} value={model.id}>
+                                  {model.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -547,7 +666,7 @@ export default function Component() {
                         <FormLabel>Workflow</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger className="w-full">
@@ -567,6 +686,14 @@ export default function Component() {
                       </FormItem>
                     )}
                   />
+                  {form.formState.errors.codebase?.message && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        {form.formState.errors.codebase.message}
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   {form.watch("workflow") === "existing_codebase" && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <FormField
@@ -607,302 +734,367 @@ export default function Component() {
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <h3 className="text-lg font-semibold">Prompts</h3>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() =>
-                          append({
-                            hfi_id: "",
-                            prompt: "",
-                            choice: 0,
-                            gdrive: "",
-                            usecase: "initial_development",
-                            comment: "",
-                            level_of_correctness: 2,
-                            level_of_correctness_comment: "",
-                            memory_comment: "",
-                          })
-                        }
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Add Prompt
-                      </Button>
+                      <div className="flex gap-2">
+                        <PromptImportDialog onImport={importPrompts} />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            append(getDefaultPromptValues(profile))
+                          }
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Prompt
+                        </Button>
+                      </div>
                     </div>
 
-                    {fields.map((field, index) => (
-                      <Card key={field.id} className="p-4">
-                        <div className="flex items-center justify-between mb-4">
-                          <h4 className="font-medium">Prompt {index + 1}</h4>
-                          {fields.length > 1 && (
-                            <Button
-                              type="button"
-                              variant="outline"
-                              size="sm"
-                              onClick={() => remove(index)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                    {fields.map((field, index) => {
+                      const collapsed = collapsedPrompts.has(field.id);
+                      return (
+                        <Card
+                          key={field.id}
+                          data-prompt-card
+                          className={cn(
+                            "p-4",
+                            dragIndex === index && "opacity-50",
+                            dropIndex === index &&
+                              dragIndex !== index &&
+                              "ring-2 ring-primary"
                           )}
-                        </div>
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.prompt`}
-                            render={({ field }) => (
-                              <FormItem className="md:col-span-2">
-                                <FormLabel>Prompt</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Enter the prompt text"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
+                          onKeyDown={(e) => {
+                            if (!e.altKey) return;
+                            if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+                              e.preventDefault();
+                              movePrompt(
+                                index,
+                                index + (e.key === "ArrowUp" ? -1 : 1)
+                              );
+                            }
+                          }}
+                          onDragOver={(e) => {
+                            if (dragIndex === null) return;
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = "move";
+                            setDropIndex(index);
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            if (dragIndex !== null)
+                              movePrompt(dragIndex, index);
+                            setDragIndex(null);
+                            setDropIndex(null);
+                          }}
+                        >
+                          <PromptCardHeader
+                            index={index}
+                            count={fields.length}
+                            collapsed={collapsed}
+                            summary={
+                              collapsed
+                                ? form
+                                    .watch(`prompts.${index}.prompt`)
+                                    ?.split("\n")[0]
+                                : undefined
+                            }
+                            onToggleCollapsed={() =>
+                              togglePromptCollapsed(field.id)
+                            }
+                            onMove={(to) => movePrompt(index, to)}
+                            onInsert={insertPrompt}
+                            onDuplicate={() => duplicatePrompt(index)}
+                            onRemove={() => remove(index)}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = "move";
+                              e.dataTransfer.setData(
+                                "application/x-prompt-index",
+                                String(index)
+                              );
+                              const card =
+                                e.currentTarget.closest("[data-prompt-card]");
+                              if (card)
+                                e.dataTransfer.setDragImage(card, 16, 16);
+                              setDragIndex(index);
+                            }}
+                            onDragEnd={() => {
+                              setDragIndex(null);
+                              setDropIndex(null);
+                            }}
                           />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.choice`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Choice (0-7)</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    max="7"
-                                    {...field}
-                                    onChange={(e) =>
-                                      field.onChange(Number(e.target.value))
-                                    }
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
+                          <div
+                            className={cn(
+                              "grid grid-cols-1 md:grid-cols-2 gap-4 mt-4",
+                              collapsed && "hidden"
                             )}
-                          />
+                          >
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.prompt`}
+                              render={({ field }) => (
+                                <FormItem className="md:col-span-2">
+                                  <FormLabel>Prompt</FormLabel>
+                                  <FormControl>
+                                    <Textarea
+                                      placeholder="Enter the prompt text"
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.gdrive`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Google Drive URL</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    placeholder="https://drive.google.com/..."
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.choice`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>
+                                    Choice ({profile.choice.min}-
+                                    {profile.choice.max})
+                                  </FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      min={profile.choice.min}
+                                      max={profile.choice.max}
+                                      {...field}
+                                      onChange={(e) =>
+                                        field.onChange(Number(e.target.value))
+                                      }
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.usecase`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Use Case</FormLabel>
-                                <Select
-                                  onValueChange={field.onChange}
-                                  defaultValue={field.value}
-                                >
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.gdrive`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Google Drive URL</FormLabel>
                                   <FormControl>
-                                    <SelectTrigger className="w-full">
-                                      <SelectValue />
-                                    </SelectTrigger>
+                                    <Input
+                                      placeholder="https://drive.google.com/..."
+                                      {...field}
+                                    />
                                   </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="initial_development">
-                                      Initial Development
-                                    </SelectItem>
-                                    <SelectItem value="feature_implementation">
-                                      Feature Implementation
-                                    </SelectItem>
-                                    <SelectItem value="debugging_fixes">
-                                      Debugging Fixes
-                                    </SelectItem>
-                                    <SelectItem value="optimization_testing">
-                                      Optimization Testing
-                                    </SelectItem>
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.level_of_correctness`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Level of Correctness</FormLabel>
-                                <Select
-                                  onValueChange={(value) =>
-                                    field.onChange(Number(value))
-                                  }
-                                  defaultValue={field.value?.toString()}
-                                >
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.usecase`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Use Case</FormLabel>
+                                  <Select
+                                    onValueChange={field.onChange}
+                                    value={field.value}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="initial_development">
+                                        Initial Development
+                                      </SelectItem>
+                                      <SelectItem value="feature_implementation">
+                                        Feature Implementation
+                                      </SelectItem>
+                                      <SelectItem value="debugging_fixes">
+                                        Debugging Fixes
+                                      </SelectItem>
+                                      <SelectItem value="optimization_testing">
+                                        Optimization Testing
+                                      </SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.level_of_correctness`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Level of Correctness</FormLabel>
+                                  <Select
+                                    onValueChange={(value) =>
+                                      field.onChange(Number(value))
+                                    }
+                                    value={field.value?.toString()}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {rangeValues(
+                                        profile.levelOfCorrectness
+                                      ).map((level) => (
+                                        <SelectItem
+                                          key={level}
+                                          value={level.toString()}
+                                        >
+                                          {level}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.comment`}
+                              render={({ field }) => (
+                                <FormItem className="md:col-span-2">
+                                  <FormLabel>Comment</FormLabel>
                                   <FormControl>
-                                    <SelectTrigger className="w-full">
-                                      <SelectValue />
-                                    </SelectTrigger>
+                                    <Textarea
+                                      placeholder="Enter comment"
+                                      {...field}
+                                    />
                                   </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="2">2</SelectItem>
-                                    <SelectItem value="1">1</SelectItem>
-                                    <SelectItem value="0">0</SelectItem>
-                                    <SelectItem value="-1">-1</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.comment`}
-                            render={({ field }) => (
-                              <FormItem className="md:col-span-2">
-                                <FormLabel>Comment</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Enter comment"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.level_of_correctness_comment`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>
+                                    Level of Correctness Comment
+                                  </FormLabel>
+                                  <FormControl>
+                                    <Textarea
+                                      placeholder="Comment on correctness level"
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.level_of_correctness_comment`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>
-                                  Level of Correctness Comment
-                                </FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Comment on correctness level"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                            <FormField
+                              control={form.control}
+                              name={`prompts.${index}.memory_comment`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Memory Comment</FormLabel>
+                                  <FormControl>
+                                    <Textarea
+                                      placeholder="Comment on memory usage"
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
 
-                          <FormField
-                            control={form.control}
-                            name={`prompts.${index}.memory_comment`}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Memory Comment</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Comment on memory usage"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                            {form.watch(
+                              `prompts.${index}.level_of_correctness`
+                            ) !== profile.levelOfCorrectness.max && (
+                              <>
+                                <FormField
+                                  control={form.control}
+                                  name={`prompts.${index}.issue_type`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Issue Type</FormLabel>
+                                      <Select
+                                        onValueChange={field.onChange}
+                                        value={field.value}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Select issue type" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="missing_memory">
+                                            Missing Memory
+                                          </SelectItem>
+                                          <SelectItem value="technical_inconsistency">
+                                            Technical Inconsistency
+                                          </SelectItem>
+                                          <SelectItem value="tool">
+                                            Tool
+                                          </SelectItem>
+                                          <SelectItem value="code_correctness">
+                                            Code Correctness
+                                          </SelectItem>
+                                          <SelectItem value="setup">
+                                            Setup
+                                          </SelectItem>
+                                          <SelectItem value="other">
+                                            Other
+                                          </SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
 
-                          {form.watch(
-                            `prompts.${index}.level_of_correctness`
-                          ) !== 2 && (
-                            <>
-                              <FormField
-                                control={form.control}
-                                name={`prompts.${index}.issue_type`}
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Issue Type</FormLabel>
-                                    <Select
-                                      onValueChange={field.onChange}
-                                      defaultValue={field.value}
-                                    >
+                                <FormField
+                                  control={form.control}
+                                  name={`prompts.${index}.issue_comment`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Issue Comment</FormLabel>
                                       <FormControl>
-                                        <SelectTrigger className="w-full">
-                                          <SelectValue placeholder="Select issue type" />
-                                        </SelectTrigger>
+                                        <Textarea
+                                          placeholder="Describe the issue"
+                                          {...field}
+                                        />
                                       </FormControl>
-                                      <SelectContent>
-                                        <SelectItem value="missing_memory">
-                                          Missing Memory
-                                        </SelectItem>
-                                        <SelectItem value="technical_inconsistency">
-                                          Technical Inconsistency
-                                        </SelectItem>
-                                        <SelectItem value="tool">
-                                          Tool
-                                        </SelectItem>
-                                        <SelectItem value="code_correctness">
-                                          Code Correctness
-                                        </SelectItem>
-                                        <SelectItem value="setup">
-                                          Setup
-                                        </SelectItem>
-                                        <SelectItem value="other">
-                                          Other
-                                        </SelectItem>
-                                      </SelectContent>
-                                    </Select>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-
-                              <FormField
-                                control={form.control}
-                                name={`prompts.${index}.issue_comment`}
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Issue Comment</FormLabel>
-                                    <FormControl>
-                                      <Textarea
-                                        placeholder="Describe the issue"
-                                        {...field}
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
 
-                              <FormField
-                                control={form.control}
-                                name={`prompts.${index}.issue_source`}
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Issue Source</FormLabel>
-                                    <FormControl>
-                                      <Input
-                                        placeholder="Source of the issue"
-                                        {...field}
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </>
-                          )}
-                        </div>
-                      </Card>
-                    ))}
+                                <FormField
+                                  control={form.control}
+                                  name={`prompts.${index}.issue_source`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Issue Source</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          placeholder="Source of the issue"
+                                          {...field}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            )}
+                          </div>
+                        </Card>
+                      );
+                    })}
                   </div>
                   <Card className="p-4">
                     <h3 className="text-lg font-semibold mb-4">
@@ -935,7 +1127,7 @@ export default function Component() {
                               <FormLabel>Memory Naturality</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -960,7 +1152,7 @@ export default function Component() {
                               <FormLabel>Context Accuracy</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -985,7 +1177,7 @@ export default function Component() {
                               <FormLabel>Code Referencing</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -1010,7 +1202,7 @@ export default function Component() {
                               <FormLabel>Remembers Debugging History</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -1035,7 +1227,7 @@ export default function Component() {
                               <FormLabel>Maintains Coding Style</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -1060,7 +1252,7 @@ export default function Component() {
                               <FormLabel>Remembers Environment</FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -1087,7 +1279,7 @@ export default function Component() {
                               </FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="w-full">
@@ -1115,7 +1307,7 @@ export default function Component() {
                               <FormControl>
                                 <Select
                                   onValueChange={field.onChange}
-                                  defaultValue={field.value}
+                                  value={field.value}
                                 >
                                   <FormControl>
                                     <SelectTrigger className="w-full">
@@ -1158,15 +1350,18 @@ export default function Component() {
                     </div>
                   </CardHeader>
                   <CardContent>
-                    <Textarea
+                    <JsonEditor
                       value={generatedJson}
                       readOnly
-                      className="min-h-[300px] font-mono text-sm"
+                      minHeight="300px"
                     />
                   </CardContent>
                 </Card>
               )}
             </TabsContent>
+            <TabsContent value="diff" className="space-y-4">
+              <MetadataDiffView />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -1174,7 +1369,7 @@ export default function Component() {
       {/* Validation Results (for checker tab) */}
       {isValid !== null && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="flex items-center gap-2">
               {isValid ? (
                 <>
@@ -1188,44 +1383,82 @@ export default function Component() {
                 </>
               )}
             </CardTitle>
+            {checkedData !== null && typeof checkedData === "object" && (
+              <Button size="sm" variant="outline" onClick={openInGenerator}>
+                <PencilLine className="h-4 w-4 mr-2" />
+                Open in Generator
+              </Button>
+            )}
           </CardHeader>
-          <CardContent>
-            {isValid ? (
+          <CardContent className="space-y-4">
+            {checkedVersion && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {typeof checkedModel === "string" && checkedModel !== "" && (
+                  <>
+                    <span className="text-muted-foreground">Model</span>
+                    <Badge variant="secondary" title={checkedModel}>
+                      {getModelName(checkedModel)}
+                    </Badge>
+                  </>
+                )}
+                <span className="text-muted-foreground">Checked against</span>
+                <Badge variant="secondary">{checkedVersion.label}</Badge>
+                {isLegacySchemaVersion(checkedVersion) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7"
+                    onClick={migrateToCurrent}
+                  >
+                    Migrate to {CURRENT_SCHEMA_VERSION.label}
+                  </Button>
+                )}
+              </div>
+            )}
+            {checkedSchemaTitle && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Checked against</span>
+                <Badge variant="secondary">{checkedSchemaTitle}</Badge>
+              </div>
+            )}
+            {migrationChanges.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  <p className="font-medium">Migration applied:</p>
+                  <ul className="list-disc pl-5">
+                    {migrationChanges.map((change) => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {isValid && (
               <Alert>
                 <CheckCircle2 className="h-4 w-4" />
                 <AlertDescription>
                   All validation checks passed successfully!
                 </AlertDescription>
               </Alert>
-            ) : (
+            )}
+            {/* Scores only documents that passed the built-in rules */}
+            {isValid && checkedVersion && (
+              <MemoryScorecard
+                document={checkedData as Record<string, unknown>}
+                profile={profile}
+              />
+            )}
+            {errors.length > 0 && (
               <div className="space-y-4">
-                <p className="text-sm text-muted-foreground">
-                  Found {errors.length} validation error
-                  {errors.length !== 1 ? "s" : ""}:
-                </p>
-
-                {Object.entries(groupedErrors).map(
-                  ([section, sectionErrors]) => (
-                    <div key={section} className="space-y-2">
-                      <h4 className="font-semibold text-sm">
-                        {section === "general" ? "General Issues" : section}
-                      </h4>
-                      <div className="space-y-2">
-                        {sectionErrors.map((error, idx) => (
-                          <Alert key={idx} variant="destructive">
-                            <AlertCircle className="h-4 w-4" />
-                            <AlertDescription className="flex items-center gap-2">
-                              <Badge variant="outline" className="text-xs">
-                                {error.field}
-                              </Badge>
-                              {error.message}
-                            </AlertDescription>
-                          </Alert>
-                        ))}
-                      </div>
-                    </div>
-                  )
-                )}
+                <AutoFixPanel
+                  data={checkedData}
+                  profile={profile}
+                  onApply={applyAutoFixes}
+                />
+                <ValidationErrorList
+                  errors={errors}
+                  onLocate={highlightJsonRange}
+                />
               </div>
             )}
           </CardContent>
@@ -0,0 +1,37 @@
+import { getDefaultMetadataValues } from "@/lib/metadata-schema";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/schema-versions";
+
+export const UUID = "0c6c1f5e-8d3a-4f0b-9a57-2f1e6d3b8c41";
+export const ROOT_GDRIVE =
+  "https://drive.google.com/drive/folders/1AbCdEfGhIjKlMnOp";
+
+export function promptGdrive(index: number) {
+  return `https://drive.google.com/file/d/1PrOmPt${index}AbCdEfGh/view`;
+}
+
+// A document that passes every rule of the default profile, as the
+// generator writes it for the current schema version
+export function validMetadata(promptCount = 1) {
+  const defaults = getDefaultMetadataValues();
+  return {
+    ...defaults,
+    ...(CURRENT_SCHEMA_VERSION.marker !== undefined && {
+      schema_version: CURRENT_SCHEMA_VERSION.marker,
+    }),
+    uuid: UUID,
+    jira_id: `${DEFAULT_PROFILE.jiraPrefix}123`,
+    programming_language: "TypeScript",
+    root_gdrive: ROOT_GDRIVE,
+    prompts: Array.from({ length: promptCount }, (_, index) => ({
+      ...defaults.prompts[0],
+      hfi_id: UUID,
+      prompt: `Prompt ${index + 1}`,
+      gdrive: promptGdrive(index),
+      comment: `Comment on prompt ${index + 1}`,
+      level_of_correctness_comment: "Correct on the first try",
+      memory_comment: "Kept track of earlier prompts",
+    })),
+    memory: { ...defaults.memory, memory_comment: "Kept the project layout" },
+  };
+}
@@ -0,0 +1,251 @@
+import { z } from "zod";
+import { findProfile, RULE_PROFILES } from "@/lib/profiles";
+import {
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSIONS,
+  type SchemaVersionId,
+} from "@/lib/schema-versions";
+import type { ValidationError } from "@/lib/validate-metadata";
+import { getRule, SEVERITIES, VALIDATION_RULES } from "@/lib/validation-rules";
+
+export const validateRequestSchema = z.object({
+  // Either the parsed metadata object or its raw JSON text
+  document: z.union([z.record(z.unknown()), z.string()], {
+    errorMap: () => ({
+      message: "document must be a metadata object or a JSON string",
+    }),
+  }),
+  expectedPromptCount: z
+    .number({ required_error: "expectedPromptCount is required" })
+    .int("expectedPromptCount must be a whole number")
+    .positive("expectedPromptCount must be positive"),
+  schemaVersion: z
+    .enum(["auto", ...SCHEMA_VERSIONS.map((version) => version.id)] as [
+      "auto",
+      ...SchemaVersionId[],
+    ])
+    .default("auto"),
+  profile: z
+    .string()
+    .refine((id) => findProfile(id) !== undefined, {
+      message: "Unknown rule profile",
+    })
+    .optional(),
+  suppress: z
+    .array(
+      z.string().refine((ruleId) => getRule(ruleId) !== undefined, {
+        message: "Unknown rule ID",
+      })
+    )
+    .default([]),
+});
+
+export type ValidateRequest = z.infer<typeof validateRequestSchema>;
+
+export interface ValidateResponse {
+  valid: boolean;
+  errors: ValidationError[];
+  prompts: unknown[];
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  issues?: { path: string; message: string }[];
+}
+
+const jsonPositionSchema = {
+  type: "object",
+  required: ["offset", "line", "column"],
+  properties: {
+    offset: { type: "integer" },
+    line: { type: "integer", minimum: 1 },
+    column: { type: "integer", minimum: 1 },
+  },
+};
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Metadata Checker API",
+    version: "1.0.0",
+    description:
+      "Runs the Metadata Checker rules (schema, expected prompt count and hfi_id/uuid match) against a metadata document.",
+  },
+  paths: {
+    "/api/validate": {
+      post: {
+        summary: "Validate a metadata document",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ValidateRequest" },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description:
+              "The document has no error-severity findings. Warnings and info findings may still be listed.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ValidateResponse" },
+              },
+            },
+          },
+          "400": {
+            description:
+              "The request itself is malformed: the body is not JSON, `document` is missing, `expectedPromptCount` is not a positive whole number, or `schemaVersion` or `profile` is unknown. The document was not validated.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ApiError" },
+              },
+            },
+          },
+          "422": {
+            description:
+              "The request was well-formed but the document has at least one error-severity finding, including JSON syntax errors in a string `document`. The body lists every finding.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ValidateResponse" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/api/schema": {
+      get: {
+        summary: "Download the metadata format as JSON Schema 2020-12",
+        parameters: [
+          {
+            name: "version",
+            in: "query",
+            description: "Schema version; defaults to the current version",
+            schema: {
+              enum: SCHEMA_VERSIONS.map((version) => version.id),
+              default: CURRENT_SCHEMA_VERSION.id,
+            },
+          },
+          {
+            name: "profile",
+            in: "query",
+            description: "Rule profile; defaults to the config default",
+            schema: { enum: RULE_PROFILES.map((profile) => profile.id) },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The JSON Schema for the requested version.",
+            content: {
+              "application/schema+json": { schema: { type: "object" } },
+            },
+          },
+          "400": {
+            description: "The version or profile is unknown.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ApiError" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ValidateRequest: {
+        type: "object",
+        required: ["document", "expectedPromptCount"],
+        properties: {
+          document: {
+            description: "Metadata object, or its raw JSON text",
+            oneOf: [{ type: "object" }, { type: "string" }],
+          },
+          expectedPromptCount: { type: "integer", minimum: 1 },
+          schemaVersion: {
+            description:
+              "Schema version to validate against; `auto` detects it from the document",
+            enum: ["auto", ...SCHEMA_VERSIONS.map((version) => version.id)],
+            default: "auto",
+          },
+          profile: {
+            description:
+              "Rule profile from `config/profiles.json`; defaults to its default profile",
+            enum: RULE_PROFILES.map((profile) => profile.id),
+          },
+          suppress: {
+            description: "Rule IDs whose findings are left out of the response",
+            type: "array",
+            items: { enum: Object.keys(VALIDATION_RULES) },
+            default: [],
+          },
+        },
+      },
+      ValidateResponse: {
+        type: "object",
+        required: ["valid", "errors", "prompts"],
+        properties: {
+          valid: {
+            description: "True when no finding has severity `error`",
+            type: "boolean",
+          },
+          errors: {
+            type: "array",
+            items: { $ref: "#/components/schemas/ValidationError" },
+          },
+          prompts: {
+            description: "The document's prompts; empty unless it is valid",
+            type: "array",
+            items: { type: "object" },
+          },
+        },
+      },
+      ValidationError: {
+        type: "object",
+        required: ["ruleId", "severity", "field", "message"],
+        properties: {
+          ruleId: {
+            description: "Stable identifier of the rule that produced the finding",
+            enum: Object.keys(VALIDATION_RULES),
+          },
+          severity: { enum: SEVERITIES },
+          field: {
+            description: "Dotted path of the offending field, e.g. `prompts.3.gdrive`",
+            type: "string",
+          },
+          message: { type: "string" },
+          index: {
+            description: "Prompt index the error belongs to, if any",
+            type: "integer",
+          },
+          location: {
+            description: "Source range in a string `document` of the value the finding refers to",
+            type: "object",
+            required: ["start", "end"],
+            properties: { start: jsonPositionSchema, end: jsonPositionSchema },
+          },
+        },
+      },
+      ApiError: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: { type: "string" },
+          issues: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["path", "message"],
+              properties: {
+                path: { type: "string" },
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
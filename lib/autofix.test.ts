@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { UUID, validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  applyFixes,
+  applyPatch,
+  getValueAtPointer,
+  proposeFixes,
+} from "@/lib/autofix";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+import { validateMetadata } from "@/lib/validate-metadata";
+
+const { jiraPrefix } = DEFAULT_PROFILE;
+
+function brokenMetadata() {
+  const document = validMetadata(2);
+  return {
+    ...document,
+    jira_id: "123",
+    codebase: { url: "https://example.com/repo", description: "" },
+    prompts: [
+      {
+        ...document.prompts[0],
+        hfi_id: "other",
+        choice: "3",
+        issue_type: "tool",
+      },
+      { ...document.prompts[1], hfi_id: undefined },
+    ],
+  };
+}
+
+describe("proposeFixes", () => {
+  it("proposes one fix per kind of mistake", () => {
+    expect(proposeFixes(brokenMetadata())).toEqual([
+      expect.objectContaining({
+        id: "hfi-id-matches-uuid",
+        patch: [
+          { op: "replace", path: "/prompts/0/hfi_id", value: UUID },
+          { op: "add", path: "/prompts/1/hfi_id", value: UUID },
+        ],
+      }),
+      expect.objectContaining({
+        id: "jira-id-prefix",
+        patch: [{ op: "replace", path: "/jira_id", value: `${jiraPrefix}123` }],
+      }),
+      expect.objectContaining({ id: "clear-new-codebase" }),
+      expect.objectContaining({
+        id: "clear-issue-fields",
+        patch: [{ op: "remove", path: "/prompts/0/issue_type" }],
+      }),
+      expect.objectContaining({
+        id: "numeric-strings",
+        patch: [{ op: "replace", path: "/prompts/0/choice", value: 3 }],
+      }),
+    ]);
+  });
+
+  it("fixes a lowercase prefix but leaves unrecognizable JIRA IDs alone", () => {
+    const lowercase = `${jiraPrefix.toLowerCase()}42`;
+    expect(
+      proposeFixes({ ...validMetadata(), jira_id: lowercase })[0].patch
+    ).toEqual([{ op: "replace", path: "/jira_id", value: `${jiraPrefix}42` }]);
+    expect(proposeFixes({ ...validMetadata(), jira_id: "ABC-1" })).toEqual([]);
+  });
+
+  it("proposes nothing for a valid document or a non-object", () => {
+    expect(proposeFixes(validMetadata())).toEqual([]);
+    expect(proposeFixes([])).toEqual([]);
+  });
+
+  it("produces a valid document when every fix is applied", () => {
+    const broken = brokenMetadata();
+    const fixed = applyFixes(broken, proposeFixes(broken));
+    expect(validateMetadata(fixed, { expectedPromptCount: 2 })).toEqual([]);
+    expect(broken.jira_id).toBe("123");
+  });
+});
+
+describe("applyPatch", () => {
+  it("adds, replaces and removes object keys and array items", () => {
+    const data = { list: [1, 2], "a/b": { "~": 1 } };
+    expect(
+      applyPatch(data, [
+        { op: "add", path: "/list/-", value: 3 },
+        { op: "remove", path: "/list/0" },
+        { op: "replace", path: "/a~1b/~0", value: 2 },
+      ])
+    ).toEqual({ list: [2, 3], "a/b": { "~": 2 } });
+    expect(data).toEqual({ list: [1, 2], "a/b": { "~": 1 } });
+  });
+
+  it("throws when the parent path does not exist", () => {
+    expect(() =>
+      applyPatch({ a: 1 }, [{ op: "add", path: "/a/b/c", value: 1 }])
+    ).toThrow("Cannot apply add at /a/b/c: path does not exist");
+  });
+});
+
+describe("getValueAtPointer", () => {
+  it("reads values by JSON pointer", () => {
+    expect(getValueAtPointer(validMetadata(), "/prompts/0/hfi_id")).toBe(UUID);
+    expect(getValueAtPointer(validMetadata(), "/missing/key")).toBeUndefined();
+  });
+});
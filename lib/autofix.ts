@@ -0,0 +1,203 @@
+import { isPlainObject } from "@/lib/json-values";
+import { DEFAULT_PROFILE, type RuleProfile } from "@/lib/profiles";
+
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+export interface AutoFix {
+  id: string;
+  title: string;
+  description: string;
+  patch: JsonPatchOperation[];
+}
+
+const ISSUE_FIELDS = ["issue_type", "issue_comment", "issue_source"] as const;
+const NUMERIC_PROMPT_FIELDS = ["choice", "level_of_correctness"] as const;
+
+function pointer(...segments: (string | number)[]) {
+  return segments
+    .map((segment) =>
+      "/" + String(segment).replace(/~/g, "~0").replace(/\//g, "~1")
+    )
+    .join("");
+}
+
+function parsePointer(path: string) {
+  return path
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Proposes JSON patches (RFC 6902 subset) for mechanical metadata mistakes.
+ * Each fix is independent so callers can apply any selection of them.
+ */
+export function proposeFixes(
+  data: unknown,
+  profile: RuleProfile = DEFAULT_PROFILE
+): AutoFix[] {
+  if (!isPlainObject(data)) return [];
+  const { jiraPrefix } = profile;
+  const topLevel = profile.levelOfCorrectness.max;
+  const fixes: AutoFix[] = [];
+  const prompts: unknown[] = Array.isArray(data.prompts) ? data.prompts : [];
+
+  if (typeof data.uuid === "string" && data.uuid !== "") {
+    const patch: JsonPatchOperation[] = [];
+    prompts.forEach((prompt, index) => {
+      if (isPlainObject(prompt) && prompt.hfi_id !== data.uuid) {
+        patch.push({
+          op: prompt.hfi_id === undefined ? "add" : "replace",
+          path: pointer("prompts", index, "hfi_id"),
+          value: data.uuid,
+        });
+      }
+    });
+    if (patch.length > 0) {
+      fixes.push({
+        id: "hfi-id-matches-uuid",
+        title: "Set hfi_id to the main UUID",
+        description: `${patch.length} prompt${patch.length !== 1 ? "s have" : " has"} an hfi_id that differs from uuid`,
+        patch,
+      });
+    }
+  }
+
+  if (
+    typeof data.jira_id === "string" &&
+    !data.jira_id.startsWith(jiraPrefix)
+  ) {
+    const trimmed = data.jira_id.trim();
+    const fixed = trimmed.toUpperCase().startsWith(jiraPrefix)
+      ? jiraPrefix + trimmed.slice(jiraPrefix.length)
+      : /^\d+$/.test(trimmed)
+        ? jiraPrefix + trimmed
+        : null;
+    if (fixed) {
+      fixes.push({
+        id: "jira-id-prefix",
+        title: `Add the ${jiraPrefix} prefix to jira_id`,
+        description: `"${data.jira_id}" becomes "${fixed}"`,
+        patch: [{ op: "replace", path: pointer("jira_id"), value: fixed }],
+      });
+    }
+  }
+
+  if (
+    data.workflow === "new_codebase" &&
+    isPlainObject(data.codebase) &&
+    (data.codebase.url || data.codebase.description)
+  ) {
+    fixes.push({
+      id: "clear-new-codebase",
+      title: "Clear codebase fields for a new codebase",
+      description:
+        "The new_codebase workflow requires an empty codebase url and description",
+      patch: [
+        {
+          op: "replace",
+          path: pointer("codebase"),
+          value: { url: "", description: "" },
+        },
+      ],
+    });
+  }
+
+  const issuePatch = prompts.flatMap((prompt, index) =>
+    isPlainObject(prompt) && prompt.level_of_correctness === topLevel
+      ? ISSUE_FIELDS.filter(
+          (field) => prompt[field] !== undefined && prompt[field] !== ""
+        ).map((field) => ({
+          op: "remove" as const,
+          path: pointer("prompts", index, field),
+        }))
+      : []
+  );
+  if (issuePatch.length > 0) {
+    fixes.push({
+      id: "clear-issue-fields",
+      title: "Remove issue fields from fully correct prompts",
+      description:
+        `Prompts with level_of_correctness ${topLevel} should not carry issue type, comment or source`,
+      patch: issuePatch,
+    });
+  }
+
+  const numberPatch = prompts.flatMap((prompt, index) =>
+    isPlainObject(prompt)
+      ? NUMERIC_PROMPT_FIELDS.filter(
+          (field) =>
+            typeof prompt[field] === "string" &&
+            prompt[field].trim() !== "" &&
+            !isNaN(Number(prompt[field]))
+        ).map((field) => ({
+          op: "replace" as const,
+          path: pointer("prompts", index, field),
+          value: Number(prompt[field]),
+        }))
+      : []
+  );
+  if (numberPatch.length > 0) {
+    fixes.push({
+      id: "numeric-strings",
+      title: "Convert numbers stored as strings",
+      description: "choice and level_of_correctness must be JSON numbers",
+      patch: numberPatch,
+    });
+  }
+
+  return fixes;
+}
+
+export function getValueAtPointer(data: unknown, path: string): unknown {
+  return parsePointer(path).reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[segment]
+        : undefined,
+    data
+  );
+}
+
+// Returns a patched copy; the input document is left untouched
+export function applyPatch<T>(data: T, patch: JsonPatchOperation[]): T {
+  const result = structuredClone(data);
+  patch.forEach(({ op, path, value }) => {
+    const segments = parsePointer(path);
+    const key = segments.pop();
+    const parent = segments.reduce<unknown>(
+      (node, segment) =>
+        Array.isArray(node)
+          ? node[Number(segment)]
+          : isPlainObject(node)
+            ? node[segment]
+            : undefined,
+      result
+    );
+    if (
+      key === undefined ||
+      !(Array.isArray(parent) || isPlainObject(parent))
+    ) {
+      throw new Error(`Cannot apply ${op} at ${path}: path does not exist`);
+    }
+    if (Array.isArray(parent)) {
+      const index = key === "-" ? parent.length : Number(key);
+      if (op === "add") parent.splice(index, 0, value);
+      else if (op === "remove") parent.splice(index, 1);
+      else parent[index] = value;
+    } else if (op === "remove") {
+      delete parent[key];
+    } else {
+      parent[key] = value;
+    }
+  });
+  return result;
+}
+
+export function applyFixes<T>(data: T, fixes: AutoFix[]): T {
+  return applyPatch(data, fixes.flatMap((fix) => fix.patch));
+}
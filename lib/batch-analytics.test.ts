@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  ALL,
+  batchFilterOptions,
+  computeBatchAnalytics,
+  filterBatchResults,
+  NONE_VALUE,
+} from "@/lib/batch-analytics";
+import { validateBatch } from "@/lib/batch-validation";
+
+function batch() {
+  const python = validMetadata(2);
+  python.programming_language = "Python";
+  python.workflow = "existing_codebase";
+  python.prompts[1] = {
+    ...python.prompts[1],
+    usecase: "debugging_fixes",
+    choice: 5,
+    level_of_correctness: 1,
+    issue_type: "tool",
+  };
+  python.memory.context_accuracy = "no";
+  return validateBatch(
+    [
+      { name: "ts.json", text: JSON.stringify(validMetadata(1)) },
+      { name: "py.json", text: JSON.stringify(python) },
+      { name: "broken.json", text: "{" },
+    ],
+    { expectedPromptCount: 2 }
+  );
+}
+
+describe("computeBatchAnalytics", () => {
+  const analytics = computeBatchAnalytics(batch());
+
+  it("counts documents and their prompts", () => {
+    expect(analytics.documentCount).toBe(3);
+    expect(analytics.promptCount).toBe(3);
+    expect(analytics.programmingLanguage).toEqual([
+      { value: "TypeScript", count: 1 },
+      { value: "Python", count: 1 },
+    ]);
+  });
+
+  it("orders numeric scales by value with empty values last", () => {
+    expect(analytics.choice).toEqual([
+      { value: "0", count: 2 },
+      { value: "5", count: 1 },
+    ]);
+    expect(analytics.issueType).toEqual([
+      { value: NONE_VALUE, count: 2 },
+      { value: "tool", count: 1 },
+    ]);
+  });
+
+  it("tallies memory answers", () => {
+    expect(analytics.memory).toContainEqual({
+      field: "context_accuracy",
+      yes: 1,
+      no: 1,
+    });
+  });
+
+  it("counts rule failures by finding and by document", () => {
+    expect(analytics.ruleFailures).toEqual(
+      expect.arrayContaining([
+        {
+          ruleId: "PROMPT_COUNT_MISMATCH",
+          severity: "error",
+          count: 1,
+          documents: 1,
+        },
+        {
+          ruleId: "JSON_SYNTAX_ERROR",
+          severity: "error",
+          count: 1,
+          documents: 1,
+        },
+      ])
+    );
+  });
+});
+
+describe("batch filters", () => {
+  const results = batch();
+
+  it("offers the languages and workflows present in the batch", () => {
+    expect(batchFilterOptions(results)).toEqual({
+      languages: ["Python", "TypeScript"],
+      workflows: ["existing_codebase", "new_codebase"],
+    });
+  });
+
+  it("keeps only documents matching every filter", () => {
+    const names = (language: string, workflow: string) =>
+      filterBatchResults(results, { language, workflow }).map(
+        ({ name }) => name
+      );
+    expect(names(ALL, ALL)).toEqual(["ts.json", "py.json", "broken.json"]);
+    expect(names("Python", ALL)).toEqual(["py.json"]);
+    expect(names("Python", "new_codebase")).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import type { BatchResult } from "@/lib/batch-validation";
+import {
+  documentPrompts,
+  isPlainObject,
+  type JsonObject,
+} from "@/lib/json-values";
+import { MEMORY_ANSWER_FIELDS } from "@/lib/quality-checks";
+import type { Severity } from "@/lib/validation-rules";
+
+export interface CountEntry {
+  value: string;
+  count: number;
+}
+
+export interface MemoryAnswerCount {
+  field: (typeof MEMORY_ANSWER_FIELDS)[number];
+  yes: number;
+  no: number;
+}
+
+export interface RuleFailureCount {
+  ruleId: string;
+  severity: Severity;
+  // Findings across all documents, and documents with at least one
+  count: number;
+  documents: number;
+}
+
+export interface BatchAnalyticsFilter {
+  // `ALL` or a programming_language / workflow value
+  language: string;
+  workflow: string;
+}
+
+export interface BatchAnalytics {
+  documentCount: number;
+  promptCount: number;
+  usecase: CountEntry[];
+  levelOfCorrectness: CountEntry[];
+  issueType: CountEntry[];
+  choice: CountEntry[];
+  programmingLanguage: CountEntry[];
+  memory: MemoryAnswerCount[];
+  ruleFailures: RuleFailureCount[];
+}
+
+export const ALL = "all";
+
+// Bucket for missing or empty values, e.g. issue_type on correct prompts
+export const NONE_VALUE = "(none)";
+
+const RULE_FAILURE_LIMIT = 10;
+
+function asDocument(value: unknown): JsonObject | null {
+  return isPlainObject(value) ? value : null;
+}
+
+function label(value: unknown) {
+  if (value === undefined || value === null || value === "") return NONE_VALUE;
+  return String(value);
+}
+
+function asDocuments(values: unknown[]): JsonObject[] {
+  return values.filter(isPlainObject);
+}
+
+// Most frequent first, or in numeric order for numeric scales
+function countValues(values: unknown[], numeric = false): CountEntry[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    const key = label(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const entries = [...counts].map(([value, count]) => ({ value, count }));
+  return numeric
+    ? entries.sort((a, b) => {
+        if (a.value === NONE_VALUE || b.value === NONE_VALUE) {
+          return a.value === NONE_VALUE ? 1 : -1;
+        }
+        return Number(a.value) - Number(b.value);
+      })
+    : entries.sort((a, b) => b.count - a.count);
+}
+
+// Languages and workflows present in the batch, for the filter selects
+export function batchFilterOptions(results: BatchResult[]) {
+  const values = (key: string) =>
+    [
+      ...new Set(
+        results.flatMap((result) => {
+          const value = asDocument(result.data)?.[key];
+          return typeof value === "string" && value !== "" ? [value] : [];
+        })
+      ),
+    ].sort();
+  return {
+    languages: values("programming_language"),
+    workflows: values("workflow"),
+  };
+}
+
+export function filterBatchResults(
+  results: BatchResult[],
+  { language, workflow }: BatchAnalyticsFilter
+) {
+  return results.filter((result) => {
+    const document = asDocument(result.data);
+    return (
+      (language === ALL || document?.programming_language === language) &&
+      (workflow === ALL || document?.workflow === workflow)
+    );
+  });
+}
+
+/**
+ * Aggregates field distributions and rule failures over a batch. Invalid
+ * documents still count as far as their fields can be read; files that
+ * aren't JSON objects only contribute their rule failures.
+ */
+export function computeBatchAnalytics(results: BatchResult[]): BatchAnalytics {
+  const documents = asDocuments(results.map((result) => result.data));
+  const prompts = documents.flatMap(documentPrompts);
+  const promptValues = (key: string) => prompts.map((prompt) => prompt[key]);
+
+  const memoryAnswers = documents.map((document) =>
+    asDocument(document.memory)
+  );
+  const memory = MEMORY_ANSWER_FIELDS.map((field) => ({
+    field,
+    yes: memoryAnswers.filter((answers) => answers?.[field] === "yes").length,
+    no: memoryAnswers.filter((answers) => answers?.[field] === "no").length,
+  }));
+
+  const failures = new Map<string, RuleFailureCount>();
+  results.forEach((result) => {
+    const seen = new Set<string>();
+    result.errors.forEach((error) => {
+      const entry = failures.get(error.ruleId) ?? {
+        ruleId: error.ruleId,
+        severity: error.severity,
+        count: 0,
+        documents: 0,
+      };
+      entry.count++;
+      if (!seen.has(error.ruleId)) entry.documents++;
+      seen.add(error.ruleId);
+      failures.set(error.ruleId, entry);
+    });
+  });
+
+  return {
+    documentCount: results.length,
+    promptCount: prompts.length,
+    usecase: countValues(promptValues("usecase")),
+    levelOfCorrectness: countValues(promptValues("level_of_correctness"), true),
+    issueType: countValues(promptValues("issue_type")),
+    choice: countValues(promptValues("choice"), true),
+    programmingLanguage: countValues(
+      documents.map((document) => document.programming_language)
+    ),
+    memory,
+    ruleFailures: [...failures.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, RULE_FAILURE_LIMIT),
+  };
+}
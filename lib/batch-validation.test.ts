@@ -0,0 +1,64 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { UUID, validMetadata } from "@/lib/__fixtures__/metadata";
+import { readMetadataFiles, validateBatch } from "@/lib/batch-validation";
+
+describe("readMetadataFiles", () => {
+  it("reads JSON files and the JSON entries of zip archives", async () => {
+    const zip = new JSZip();
+    zip.file("a.json", "{}");
+    zip.file("nested/b.JSON", "[]");
+    zip.file("notes.txt", "skip");
+    zip.file("__MACOSX/._a.json", "skip");
+    const archive = await zip.generateAsync({ type: "uint8array" });
+
+    const files = await readMetadataFiles([
+      new File(['{"uuid": 1}'], "single.json"),
+      new File([archive], "batch.zip"),
+      new File(["skip"], "readme.md"),
+    ]);
+    expect(files).toEqual([
+      { name: "single.json", text: '{"uuid": 1}' },
+      { name: "batch.zip/a.json", text: "{}" },
+      { name: "batch.zip/nested/b.JSON", text: "[]" },
+    ]);
+  });
+});
+
+describe("validateBatch", () => {
+  it("summarizes each file", () => {
+    const duplicate = validMetadata(2);
+    duplicate.prompts[1].comment = duplicate.prompts[0].comment;
+    const [valid, warned, invalid, broken] = validateBatch(
+      [
+        { name: "valid.json", text: JSON.stringify(validMetadata(2)) },
+        { name: "warned.json", text: JSON.stringify(duplicate) },
+        { name: "invalid.json", text: JSON.stringify(validMetadata(1)) },
+        { name: "broken.json", text: "{" },
+      ],
+      { expectedPromptCount: 2 }
+    );
+
+    expect(valid).toMatchObject({
+      uuid: UUID,
+      jiraId: validMetadata().jira_id,
+      promptCount: 2,
+      valid: true,
+      errorCount: 0,
+      warningCount: 0,
+    });
+    expect(warned).toMatchObject({ valid: true, warningCount: 1 });
+    expect(invalid).toMatchObject({
+      promptCount: 1,
+      valid: false,
+      errorCount: 1,
+    });
+    expect(broken).toMatchObject({
+      uuid: "",
+      jiraId: "",
+      promptCount: null,
+      valid: false,
+      data: undefined,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import JSZip from "jszip";
+import {
+  countBySeverity,
+  isPassing,
+  validateMetadataText,
+  type ValidateMetadataOptions,
+  type ValidationError,
+} from "@/lib/validate-metadata";
+
+export interface MetadataFile {
+  name: string;
+  text: string;
+}
+
+export interface BatchResult {
+  name: string;
+  uuid: string;
+  jiraId: string;
+  promptCount: number | null;
+  valid: boolean;
+  // Parsed document, or undefined when the file isn't valid JSON
+  data: unknown;
+  errors: ValidationError[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Reads dropped `.json` files and the `.json` entries of any `.zip`
+ * archives. Zip entries are named `archive.zip/path/in/archive.json`.
+ */
+export async function readMetadataFiles(
+  files: Iterable<File>
+): Promise<MetadataFile[]> {
+  const result: MetadataFile[] = [];
+  for (const file of Array.from(files)) {
+    const lowerName = file.name.toLowerCase();
+    if (lowerName.endsWith(".zip")) {
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const entries = Object.values(zip.files).filter(
+        (entry) =>
+          !entry.dir &&
+          entry.name.toLowerCase().endsWith(".json") &&
+          !entry.name.startsWith("__MACOSX/")
+      );
+      for (const entry of entries) {
+        result.push({
+          name: `${file.name}/${entry.name}`,
+          text: await entry.async("string"),
+        });
+      }
+    } else if (lowerName.endsWith(".json")) {
+      result.push({ name: file.name, text: await file.text() });
+    }
+  }
+  return result;
+}
+
+export function validateBatch(
+  files: MetadataFile[],
+  options: ValidateMetadataOptions = {}
+): BatchResult[] {
+  return files.map(({ name, text }) => {
+    const { data, errors } = validateMetadataText(text, options);
+    const document = (data ?? {}) as Record<string, unknown>;
+    return {
+      name,
+      uuid: typeof document.uuid === "string" ? document.uuid : "",
+      jiraId: typeof document.jira_id === "string" ? document.jira_id : "",
+      promptCount: Array.isArray(document.prompts)
+        ? document.prompts.length
+        : null,
+      valid: isPassing(errors),
+      data,
+      errors,
+      errorCount: countBySeverity(errors).error,
+      warningCount: countBySeverity(errors).warning,
+    };
+  });
+}
@@ -0,0 +1,101 @@
+import type { MetadataFormData } from "@/lib/metadata-schema";
+import type { MetadataTemplate } from "@/lib/metadata-templates";
+
+export interface MetadataDraft {
+  id: string;
+  name: string;
+  values: MetadataFormData;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = "metadata-check-app";
+const DB_VERSION = 2;
+const DRAFTS_STORE = "drafts";
+const TEMPLATES_STORE = "templates";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Creates whichever stores are missing, whatever version it upgrades from
+      [DRAFTS_STORE, TEMPLATES_STORE].forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "id" });
+        }
+      });
+    };
+    databasePromise = requestToPromise(request).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const request = run(transaction.objectStore(storeName));
+  // A write only counts once the transaction commits: a request can succeed
+  // and the transaction still abort afterwards
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("The transaction was aborted"));
+  });
+}
+
+// Most recently updated first
+export async function listDrafts(): Promise<MetadataDraft[]> {
+  const drafts = await withStore<MetadataDraft[]>(
+    DRAFTS_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveDraft(draft: MetadataDraft): Promise<void> {
+  await withStore(DRAFTS_STORE, "readwrite", (store) => store.put(draft));
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore(DRAFTS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+// Alphabetical by name
+export async function listTemplates(): Promise<MetadataTemplate[]> {
+  const templates = await withStore<MetadataTemplate[]>(
+    TEMPLATES_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: MetadataTemplate): Promise<void> {
+  await withStore(TEMPLATES_STORE, "readwrite", (store) => store.put(template));
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  await withStore(TEMPLATES_STORE, "readwrite", (store) => store.delete(id));
+}
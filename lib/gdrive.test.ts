@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeDriveUrlProblem,
+  DRIVE_LINK_RULES,
+  DRIVE_URL_PATTERNS,
+  driveLinkRulesSchema,
+  parseDriveUrl,
+} from "@/lib/gdrive";
+
+const ID = "1AbCdEfGhIjKlMnOp";
+
+const LINKS = {
+  folder: `https://drive.google.com/drive/folders/${ID}?usp=sharing`,
+  accountFolder: `https://drive.google.com/drive/u/1/folders/${ID}`,
+  file: `https://drive.google.com/file/d/${ID}/view`,
+  download: `https://drive.google.com/uc?export=download&id=${ID}`,
+  doc: `https://docs.google.com/document/d/${ID}/edit`,
+  legacy: `https://drive.google.com/open?id=${ID}`,
+};
+
+describe("parseDriveUrl", () => {
+  it("reads the ID and kind of each link form", () => {
+    expect(
+      Object.values(LINKS).map((url) => {
+        const result = parseDriveUrl(url);
+        return result.ok ? result.link : result.message;
+      })
+    ).toEqual([
+      { kind: "folder", id: ID },
+      { kind: "folder", id: ID },
+      { kind: "file", id: ID },
+      { kind: "file", id: ID },
+      { kind: "file", id: ID },
+      { kind: null, id: ID },
+    ]);
+  });
+
+  it("explains links it can't use", () => {
+    expect(parseDriveUrl("drive.google.com")).toEqual({
+      ok: false,
+      message: "Must be a valid URL",
+    });
+    expect(parseDriveUrl(`http://drive.google.com/file/d/${ID}`)).toMatchObject(
+      {
+        ok: false,
+        message: "Must be a Google Drive link (https://drive.google.com/…)",
+      }
+    );
+    expect(parseDriveUrl("https://drive.google.com/drive/my-drive")).toEqual({
+      ok: false,
+      message: "Link does not point at a Drive file or folder",
+    });
+    expect(parseDriveUrl("https://drive.google.com/file/d/short")).toEqual({
+      ok: false,
+      message: '"short" is not a valid Drive ID',
+    });
+  });
+});
+
+describe("describeDriveUrlProblem", () => {
+  it("checks the kind of object against the allowed kinds", () => {
+    expect(describeDriveUrlProblem(LINKS.folder, ["folder"])).toBeNull();
+    expect(describeDriveUrlProblem(LINKS.file, ["folder"])).toBe(
+      "Must link to a Drive folder, not a file"
+    );
+    expect(describeDriveUrlProblem(LINKS.legacy, ["file"])).toBeNull();
+  });
+});
+
+describe("DRIVE_URL_PATTERNS", () => {
+  it("accepts the same links as parseDriveUrl for each kind", () => {
+    const folder = new RegExp(DRIVE_URL_PATTERNS.folder, "u");
+    const file = new RegExp(DRIVE_URL_PATTERNS.file, "u");
+    Object.values(LINKS).forEach((url) => {
+      const result = parseDriveUrl(url);
+      const kind = result.ok ? result.link.kind : undefined;
+      expect(folder.test(url)).toBe(kind === "folder" || kind === null);
+      expect(file.test(url)).toBe(kind === "file" || kind === null);
+    });
+  });
+});
+
+describe("Drive link rules", () => {
+  it("loads the config file", () => {
+    expect(DRIVE_LINK_RULES).toEqual({
+      rootGdrive: ["folder"],
+      promptGdrive: ["file"],
+    });
+  });
+
+  it("rejects unknown kinds and empty lists", () => {
+    expect(
+      driveLinkRulesSchema
+        .safeParse({
+          rootGdrive: ["folders"],
+          promptGdrive: [],
+        })
+        .error?.issues.map(({ path }) => path.join("."))
+    ).toEqual(["rootGdrive.0", "promptGdrive"]);
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import linkRules from "@/config/gdrive.json";
+
+const DRIVE_LINK_KINDS = ["folder", "file"] as const;
+
+export type DriveLinkKind = (typeof DRIVE_LINK_KINDS)[number];
+
+export interface DriveLink {
+  // null for legacy links that don't say what they point at
+  kind: DriveLinkKind | null;
+  id: string;
+}
+
+export type DriveUrlResult =
+  | { ok: true; link: DriveLink }
+  | { ok: false; message: string };
+
+const allowedKinds = z.array(z.enum(DRIVE_LINK_KINDS)).min(1);
+
+export const driveLinkRulesSchema = z.object({
+  rootGdrive: allowedKinds,
+  promptGdrive: allowedKinds,
+});
+
+// Which kinds of Drive object each metadata field may point at
+export const DRIVE_LINK_RULES = driveLinkRulesSchema.parse(linkRules);
+
+const DRIVE_HOSTS = ["drive.google.com", "docs.google.com"];
+
+const DRIVE_ID = /^[\w-]{10,}$/;
+
+/**
+ * Regex equivalents of `parseDriveUrl` for consumers that can't run it, such
+ * as the exported JSON Schema. Legacy `open?id=` links match either kind.
+ */
+export const DRIVE_URL_PATTERNS: Record<DriveLinkKind, string> = {
+  folder:
+    "^https://drive\\.google\\.com/(drive/(u/\\d+/)?folders/|open\\?id=)[\\w-]{10,}",
+  file: "^https://(drive\\.google\\.com/(file/(u/\\d+/)?d/|open\\?id=|uc\\?(.*&)?id=)|docs\\.google\\.com/(document|spreadsheets|presentation|forms)/(u/\\d+/)?d/)[\\w-]{10,}",
+};
+
+// Docs editors each have their own path prefix; they all hold files
+const DOCS_EDITORS = ["document", "spreadsheets", "presentation", "forms"];
+
+/**
+ * Parses a Google Drive or Docs URL without any network access and returns
+ * the ID and kind of object it points at.
+ */
+export function parseDriveUrl(value: string): DriveUrlResult {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return { ok: false, message: "Must be a valid URL" };
+  }
+  if (url.protocol !== "https:" || !DRIVE_HOSTS.includes(url.hostname)) {
+    return {
+      ok: false,
+      message: "Must be a Google Drive link (https://drive.google.com/…)",
+    };
+  }
+
+  // Account switcher segments (/u/0/) don't change what the link points at
+  const segments = url.pathname
+    .split("/")
+    .filter(Boolean)
+    .filter((segment, i, all) => segment !== "u" && all[i - 1] !== "u");
+
+  let link: DriveLink | null = null;
+  if (url.hostname === "drive.google.com") {
+    if (segments[0] === "drive" && segments[1] === "folders") {
+      link = { kind: "folder", id: segments[2] };
+    } else if (segments[0] === "file" && segments[1] === "d") {
+      link = { kind: "file", id: segments[2] };
+    } else if (segments[0] === "uc") {
+      link = { kind: "file", id: url.searchParams.get("id") ?? "" };
+    } else if (segments[0] === "open") {
+      link = { kind: null, id: url.searchParams.get("id") ?? "" };
+    }
+  } else if (DOCS_EDITORS.includes(segments[0]) && segments[1] === "d") {
+    link = { kind: "file", id: segments[2] };
+  }
+
+  if (!link || !link.id) {
+    return {
+      ok: false,
+      message: "Link does not point at a Drive file or folder",
+    };
+  }
+  if (!DRIVE_ID.test(link.id)) {
+    return { ok: false, message: `"${link.id}" is not a valid Drive ID` };
+  }
+  return { ok: true, link };
+}
+
+/**
+ * Explains why a URL is not an acceptable Drive link for a field, or
+ * returns null when it parses to one of the allowed kinds.
+ */
+export function describeDriveUrlProblem(
+  value: string,
+  allowedKinds: DriveLinkKind[]
+): string | null {
+  const result = parseDriveUrl(value);
+  if (!result.ok) return result.message;
+  const { kind } = result.link;
+  if (kind && !allowedKinds.includes(kind)) {
+    return `Must link to a Drive ${allowedKinds.join(" or ")}, not a ${kind}`;
+  }
+  return null;
+}
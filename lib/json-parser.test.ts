@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildJsonSourceMap,
+  formatDiagnostic,
+  locateJsonPath,
+  parseJsonWithDiagnostics,
+} from "@/lib/json-parser";
+
+function messages(text: string) {
+  return parseJsonWithDiagnostics(text).diagnostics.map(
+    ({ start, message }) => `${start.line}:${start.column} ${message}`
+  );
+}
+
+describe("parseJsonWithDiagnostics", () => {
+  it("returns the parsed value without diagnostics for valid JSON", () => {
+    expect(parseJsonWithDiagnostics('{"a": [1, true, null]}')).toEqual({
+      value: { a: [1, true, null] },
+      diagnostics: [],
+    });
+  });
+
+  it("reports every recoverable problem with its position", () => {
+    expect(messages('{\n  "a": 1\n  "b": \'x\',\n}')).toEqual([
+      "3:3 missing comma between properties",
+      "3:8 strings must use double quotes",
+      "4:1 trailing comma before `}`",
+    ]);
+  });
+
+  it("reports a container left open at the end of input", () => {
+    expect(messages('{"a": [1, 2')).toEqual([
+      "1:12 missing `]` to close the array opened at 1:7",
+      "1:12 missing `}` to close the object opened at 1:1",
+    ]);
+  });
+
+  it("reports a mismatched closer once", () => {
+    expect(messages('{"a": 1]')).toEqual([
+      "1:8 `]` does not close the object opened at 1:1; expected `}`",
+    ]);
+    expect(messages("[1, 2}")).toEqual([
+      "1:6 `}` does not close the array opened at 1:1; expected `]`",
+    ]);
+  });
+
+  it("leaves a closer that belongs to an enclosing container to it", () => {
+    expect(messages('[{"a": 1]')).toEqual([
+      "1:9 missing `}` to close the object opened at 1:2",
+    ]);
+  });
+
+  it("keeps reporting errors after a mismatched closer", () => {
+    expect(messages("[[1}, 'x']")).toEqual([
+      "1:4 `}` does not close the array opened at 1:2; expected `]`",
+      "1:7 strings must use double quotes",
+    ]);
+  });
+
+  it("formats a diagnostic with its position and the token found", () => {
+    const [diagnostic] = parseJsonWithDiagnostics("[1,]").diagnostics;
+    expect(formatDiagnostic(diagnostic)).toContain("1:4");
+  });
+});
+
+describe("buildJsonSourceMap / locateJsonPath", () => {
+  const text = '{\n  "prompts": [\n    { "gdrive": "x" }\n  ]\n}';
+  const sourceMap = buildJsonSourceMap(text);
+
+  it("maps a path to its value and key", () => {
+    const entry = sourceMap.get("prompts.0.gdrive");
+    expect(entry?.value.start).toMatchObject({ line: 3, column: 17 });
+    expect(entry?.key?.start).toMatchObject({ line: 3, column: 7 });
+  });
+
+  it("falls back to the nearest ancestor's key for a missing field", () => {
+    const range = locateJsonPath(sourceMap, ["prompts", 0, "hfi_id"]);
+    expect(range?.start).toMatchObject({ line: 3, column: 5 });
+  });
+});
@@ -0,0 +1,550 @@
+export interface JsonPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface JsonRange {
+  start: JsonPosition;
+  end: JsonPosition;
+}
+
+export interface JsonDiagnostic extends JsonRange {
+  // Text of the token the parser stumbled on, or null at end of input
+  found: string | null;
+  message: string;
+}
+
+export interface JsonParseResult {
+  value: unknown;
+  diagnostics: JsonDiagnostic[];
+}
+
+export interface JsonSourceEntry {
+  value: JsonRange;
+  // Property name of the value, absent for array elements and the root
+  key?: JsonRange;
+}
+
+// Source ranges keyed by dotted JSON path, e.g. `prompts.3.gdrive`; the
+// root value is stored under ""
+export type JsonSourceMap = Map<string, JsonSourceEntry>;
+
+const MAX_DIAGNOSTICS = 20;
+
+type TokenType =
+  | "{"
+  | "}"
+  | "["
+  | "]"
+  | ":"
+  | ","
+  | "string"
+  | "number"
+  | "literal"
+  | "invalid"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  start: number;
+  end: number;
+  value?: unknown;
+}
+
+const PUNCTUATION = "{}[]:,";
+const WHITESPACE = " \t\n\r";
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+class DiagnosticLimitReached extends Error {}
+
+/**
+ * Parses JSON text and reports every recoverable syntax problem with its
+ * line/column span instead of stopping at the first one like `JSON.parse`.
+ */
+export function parseJsonWithDiagnostics(text: string): JsonParseResult {
+  try {
+    return { value: JSON.parse(text), diagnostics: [] };
+  } catch (error) {
+    const result = new TolerantParser(text).parse();
+    if (result.diagnostics.length === 0) {
+      // Should not happen, but never report broken JSON as valid
+      const position = positionAt(text, 0);
+      result.diagnostics.push({
+        start: position,
+        end: position,
+        found: null,
+        message: error instanceof Error ? error.message : "invalid JSON",
+      });
+    }
+    return result;
+  }
+}
+
+export function formatDiagnostic(diagnostic: JsonDiagnostic): string {
+  const { line, column } = diagnostic.start;
+  const found =
+    diagnostic.found === null
+      ? "unexpected end of input"
+      : `unexpected \`${truncate(diagnostic.found)}\``;
+  return `${found} at ${line}:${column}, ${diagnostic.message}`;
+}
+
+export function positionAt(text: string, offset: number): JsonPosition {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { offset, line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Maps every value in the JSON text to its source range. Works on broken
+ * JSON too, though values after a syntax error may be missing.
+ */
+export function buildJsonSourceMap(text: string): JsonSourceMap {
+  const parser = new TolerantParser(text);
+  parser.parse();
+  return parser.sourceMap;
+}
+
+/**
+ * Finds the source range for a JSON path. Paths that don't exist in the text,
+ * such as a missing required property, resolve to the nearest ancestor's
+ * property name, or to its first character when it has none.
+ */
+export function locateJsonPath(
+  sourceMap: JsonSourceMap,
+  path: readonly (string | number)[]
+): JsonRange | null {
+  const exact = sourceMap.get(path.join("."));
+  if (exact) return exact.value;
+
+  for (let length = path.length - 1; length >= 0; length--) {
+    const entry = sourceMap.get(path.slice(0, length).join("."));
+    if (!entry) continue;
+    if (entry.key) return entry.key;
+    const { start } = entry.value;
+    return {
+      start,
+      end: { ...start, offset: start.offset + 1, column: start.column + 1 },
+    };
+  }
+  return null;
+}
+
+function truncate(value: string) {
+  return value.length > 20 ? `${value.slice(0, 20)}…` : value;
+}
+
+class TolerantParser {
+  private pos = 0;
+  private token: Token;
+  // End offset of the last consumed token
+  private lastEnd = 0;
+  private readonly path: (string | number)[] = [];
+  // Closing brackets of the containers being parsed, innermost last
+  private readonly closers: ("}" | "]")[] = [];
+  private readonly lineStarts: number[] = [0];
+  readonly diagnostics: JsonDiagnostic[] = [];
+  readonly sourceMap: JsonSourceMap = new Map();
+
+  constructor(private readonly text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\n") this.lineStarts.push(i + 1);
+    }
+    this.token = { type: "eof", start: 0, end: 0 };
+  }
+
+  parse(): JsonParseResult {
+    let value: unknown;
+    try {
+      this.next();
+      if (this.token.type === "eof") {
+        this.report(this.token, "expected a JSON value");
+      } else {
+        value = this.parseValue("expected a JSON value");
+        if (!this.atEnd()) {
+          this.report(this.token, "unexpected content after the JSON value");
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof DiagnosticLimitReached)) throw error;
+    }
+    return { value, diagnostics: this.diagnostics };
+  }
+
+  private parseValue(expected: string, key?: Token): unknown {
+    const start = this.token.start;
+    const value = this.parseToken(expected);
+    if (this.lastEnd > start) {
+      this.sourceMap.set(this.path.join("."), {
+        value: this.range(start, this.lastEnd),
+        key: key && this.range(key.start, key.end),
+      });
+    }
+    return value;
+  }
+
+  private parseToken(expected: string): unknown {
+    const token = this.token;
+    switch (token.type) {
+      case "{":
+        return this.parseNested("}", () => this.parseObject());
+      case "[":
+        return this.parseNested("]", () => this.parseArray());
+      case "string":
+      case "number":
+      case "literal":
+        this.next();
+        return token.value;
+      case "invalid":
+        // Already reported by the tokenizer; treat it as the value
+        this.next();
+        return undefined;
+      default:
+        this.report(token, expected);
+        return undefined;
+    }
+  }
+
+  private parseObject() {
+    const result: Record<string, unknown> = {};
+    const open = this.token;
+    this.next();
+    let afterComma = false;
+
+    while (true) {
+      const token = this.token;
+      if (token.type === "}") {
+        if (afterComma) this.report(token, "trailing comma before `}`");
+        this.next();
+        return result;
+      }
+      if (token.type === "eof") {
+        this.report(token, `missing \`}\` to close the object opened at ${this.describe(open)}`);
+        return result;
+      }
+      if (token.type === "]") {
+        this.closeMismatched(token, open, "object");
+        return result;
+      }
+      if (token.type === ",") {
+        this.report(
+          token,
+          afterComma ? "missing property after comma" : "expected a property name"
+        );
+        this.next();
+        afterComma = true;
+        continue;
+      }
+
+      let key: string | undefined;
+      const keyToken = token;
+      if (token.type === "string") {
+        key = token.value as string;
+        this.next();
+      } else if (token.type !== "invalid") {
+        this.report(token, "expected a double-quoted property name");
+        this.skipTo([",", "}"]);
+        afterComma = false;
+        continue;
+      } else {
+        this.next();
+      }
+
+      if (this.token.type === ":") {
+        this.next();
+      } else {
+        this.report(this.token, "missing `:` after property name");
+      }
+
+      let value: unknown;
+      if (this.startsValue(this.token.type)) {
+        this.path.push(key ?? "");
+        value = this.parseValue("expected a value", keyToken);
+        this.path.pop();
+      } else {
+        this.report(this.token, "missing value after `:`");
+      }
+      if (key !== undefined) result[key] = value;
+
+      const after = this.token;
+      if (after.type === ",") {
+        this.next();
+        afterComma = true;
+      } else if (
+        after.type === "}" ||
+        after.type === "]" ||
+        after.type === "eof"
+      ) {
+        afterComma = false;
+      } else if (after.type === "string") {
+        this.report(after, "missing comma between properties");
+        afterComma = false;
+      } else {
+        this.report(after, "expected `,` or `}` after property value");
+        this.skipTo([",", "}"]);
+        afterComma = false;
+      }
+    }
+  }
+
+  private parseArray() {
+    const result: unknown[] = [];
+    const open = this.token;
+    this.next();
+    let afterComma = false;
+
+    while (true) {
+      const token = this.token;
+      if (token.type === "]") {
+        if (afterComma) this.report(token, "missing value after comma");
+        this.next();
+        return result;
+      }
+      if (token.type === "eof") {
+        this.report(token, `missing \`]\` to close the array opened at ${this.describe(open)}`);
+        return result;
+      }
+      if (token.type === "}") {
+        this.closeMismatched(token, open, "array");
+        return result;
+      }
+      if (token.type === ",") {
+        this.report(
+          token,
+          afterComma ? "missing value after comma" : "expected a value before comma"
+        );
+        this.next();
+        afterComma = true;
+        continue;
+      }
+      if (!this.startsValue(token.type)) {
+        this.report(token, "expected a value");
+        this.skipTo([",", "]"]);
+        afterComma = false;
+        continue;
+      }
+
+      this.path.push(result.length);
+      result.push(this.parseValue("expected a value"));
+      this.path.pop();
+
+      const after = this.token;
+      if (after.type === ",") {
+        this.next();
+        afterComma = true;
+      } else if (
+        after.type === "]" ||
+        after.type === "}" ||
+        after.type === "eof"
+      ) {
+        afterComma = false;
+      } else if (this.startsValue(after.type)) {
+        this.report(after, "missing comma between array elements");
+        afterComma = false;
+      } else {
+        this.report(after, "expected `,` or `]` after array element");
+        this.skipTo([",", "]"]);
+        afterComma = false;
+      }
+    }
+  }
+
+  private parseNested(closer: "}" | "]", parse: () => unknown) {
+    this.closers.push(closer);
+    try {
+      return parse();
+    } finally {
+      this.closers.pop();
+    }
+  }
+
+  // A closer of the wrong kind ends the container either way. When it
+  // belongs to an enclosing container it's left for that one to consume,
+  // otherwise it's consumed here so it is reported only once.
+  private closeMismatched(token: Token, open: Token, kind: "object" | "array") {
+    const expected = kind === "object" ? "}" : "]";
+    if (this.closers.slice(0, -1).includes(token.type as "}" | "]")) {
+      this.report(token, `missing \`${expected}\` to close the ${kind} opened at ${this.describe(open)}`);
+      return;
+    }
+    this.report(
+      token,
+      `\`${token.type}\` does not close the ${kind} opened at ${this.describe(open)}; expected \`${expected}\``
+    );
+    this.next();
+  }
+
+  private atEnd() {
+    return this.token.type === "eof";
+  }
+
+  private startsValue(type: TokenType) {
+    return (
+      type === "{" ||
+      type === "[" ||
+      type === "string" ||
+      type === "number" ||
+      type === "literal" ||
+      type === "invalid"
+    );
+  }
+
+  // Skips tokens until one of `stops` at the current nesting depth
+  private skipTo(stops: TokenType[]) {
+    let depth = 0;
+    while (this.token.type !== "eof") {
+      const type = this.token.type;
+      if (depth === 0 && stops.includes(type)) return;
+      if (type === "{" || type === "[") depth++;
+      if (type === "}" || type === "]") {
+        if (depth === 0) return;
+        depth--;
+      }
+      this.next();
+    }
+  }
+
+  private next() {
+    this.lastEnd = this.token.end;
+    this.token = this.scan();
+  }
+
+  private scan(): Token {
+    const text = this.text;
+    while (this.pos < text.length && WHITESPACE.includes(text[this.pos])) {
+      this.pos++;
+    }
+    const start = this.pos;
+    if (start >= text.length) return { type: "eof", start, end: start };
+
+    const char = text[start];
+    if (PUNCTUATION.includes(char)) {
+      this.pos++;
+      return { type: char as TokenType, start, end: this.pos };
+    }
+    if (char === '"') return this.scanString();
+
+    // Read a bare word: numbers, literals, or junk like `undefined` or `'x'`
+    while (
+      this.pos < text.length &&
+      !WHITESPACE.includes(text[this.pos]) &&
+      !PUNCTUATION.includes(text[this.pos]) &&
+      text[this.pos] !== '"'
+    ) {
+      this.pos++;
+    }
+    const word = text.slice(start, this.pos);
+    const token: Token = { type: "invalid", start, end: this.pos };
+
+    if (word === "true" || word === "false" || word === "null") {
+      token.type = "literal";
+      token.value = word === "null" ? null : word === "true";
+    } else if (NUMBER_PATTERN.test(word)) {
+      token.type = "number";
+      token.value = Number(word);
+    } else if (/^[-+.\d]/.test(word)) {
+      this.report(token, "invalid number");
+    } else if (word[0] === "'") {
+      this.report(token, "strings must use double quotes");
+    } else {
+      this.report(token, "expected a JSON value");
+    }
+    return token;
+  }
+
+  private scanString(): Token {
+    const text = this.text;
+    const start = this.pos;
+    let value = "";
+    this.pos++;
+
+    while (this.pos < text.length) {
+      const char = text[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return { type: "string", start, end: this.pos, value };
+      }
+      if (char === "\n") break;
+      if (char === "\\") {
+        const escape = text[this.pos + 1];
+        if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(this.pos + 2, this.pos + 6))) {
+          value += String.fromCharCode(parseInt(text.slice(this.pos + 2, this.pos + 6), 16));
+          this.pos += 6;
+          continue;
+        }
+        if (escape !== undefined && escape in ESCAPES) {
+          value += ESCAPES[escape];
+          this.pos += 2;
+          continue;
+        }
+        this.report(
+          { type: "invalid", start: this.pos, end: this.pos + 2 },
+          "invalid escape sequence in string"
+        );
+        this.pos += escape === undefined ? 1 : 2;
+        continue;
+      }
+      if (char < " ") {
+        this.report(
+          { type: "invalid", start: this.pos, end: this.pos + 1 },
+          "control characters must be escaped in strings"
+        );
+      }
+      value += char;
+      this.pos++;
+    }
+
+    const token: Token = { type: "string", start, end: this.pos, value };
+    this.report(token, "unterminated string");
+    return token;
+  }
+
+  private report(token: Token, message: string) {
+    this.diagnostics.push({
+      start: this.position(token.start),
+      end: this.position(token.end),
+      found: token.type === "eof" ? null : this.text.slice(token.start, token.end),
+      message,
+    });
+    if (this.diagnostics.length >= MAX_DIAGNOSTICS) {
+      throw new DiagnosticLimitReached();
+    }
+  }
+
+  private describe(token: Token) {
+    const { line, column } = this.position(token.start);
+    return `${line}:${column}`;
+  }
+
+  private range(start: number, end: number): JsonRange {
+    return { start: this.position(start), end: this.position(end) };
+  }
+
+  private position(offset: number): JsonPosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  buildMetadataJsonSchema,
+  compileExternalJsonSchema,
+  JSON_SCHEMA_DIALECT,
+} from "@/lib/json-schema";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+import { getSchemaVersion } from "@/lib/schema-versions";
+
+const schema = buildMetadataJsonSchema();
+const { validate } = compileExternalJsonSchema(JSON.stringify(schema));
+
+function fields(errors: { field: string }[]) {
+  return errors.map(({ field }) => field);
+}
+
+describe("buildMetadataJsonSchema", () => {
+  it("declares the 2020-12 dialect and a URN $id", () => {
+    expect(schema.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(schema.$id).toBe(
+      `urn:metadata-check:schema:${DEFAULT_PROFILE.id}:metadata-v2`
+    );
+  });
+
+  it("accepts a valid document", () => {
+    expect(validate(validMetadata())).toEqual([]);
+  });
+
+  it("accepts unknown keys, as the checker does", () => {
+    expect(validate({ ...validMetadata(), notes: "extra" })).toEqual([]);
+  });
+
+  it("requires the schema_version marker of the current version", () => {
+    const { schema_version, ...v1 } = validMetadata();
+    expect(schema_version).toBe(2);
+    expect(fields(validate(v1))).toEqual(["schema_version"]);
+  });
+
+  it("accepts a v2 document in the v1 export", () => {
+    const v1 = buildMetadataJsonSchema(getSchemaVersion("v1"));
+    expect(
+      compileExternalJsonSchema(JSON.stringify(v1)).validate(validMetadata())
+    ).toEqual([]);
+  });
+
+  it("reports a blank issue type once", () => {
+    const document = validMetadata();
+    document.prompts[0] = {
+      ...document.prompts[0],
+      level_of_correctness: DEFAULT_PROFILE.levelOfCorrectness.min,
+      issue_type: "  " as never,
+      issue_comment: "Forgot the setup step",
+      issue_source: "model",
+    };
+    expect(fields(validate(document))).toEqual(["prompts.0.issue_type"]);
+  });
+
+  it("rejects a codebase on a new codebase workflow", () => {
+    const document = {
+      ...validMetadata(),
+      codebase: { url: "https://example.com/repo", description: "" },
+    };
+    expect(fields(validate(document))).toEqual(["codebase.url"]);
+  });
+});
+
+describe("compileExternalJsonSchema", () => {
+  it("validates against schemas of older drafts", () => {
+    const { title, validate } = compileExternalJsonSchema(
+      JSON.stringify({
+        $schema: "http://json-schema.org/draft-07/schema#",
+        type: "object",
+        required: ["uuid"],
+      })
+    );
+    expect(title).toBe("Untitled schema");
+    expect(validate({ prompts: [] })).toMatchObject([
+      { ruleId: "JSON_SCHEMA_VIOLATION", field: "uuid" },
+    ]);
+  });
+
+  it("throws for text that isn't a schema object", () => {
+    expect(() => compileExternalJsonSchema("[]")).toThrow(
+      "A JSON Schema must be an object"
+    );
+    expect(() => compileExternalJsonSchema("{")).toThrow();
+  });
+});
@@ -0,0 +1,195 @@
+import Ajv, { type AnySchema, type ErrorObject } from "ajv";
+import Ajv2019 from "ajv/dist/2019";
+import Ajv2020 from "ajv/dist/2020";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { DRIVE_LINK_RULES, DRIVE_URL_PATTERNS } from "@/lib/gdrive";
+import { MODEL_REGISTRY } from "@/lib/models";
+import { DEFAULT_PROFILE, type RuleProfile } from "@/lib/profiles";
+import {
+  CURRENT_SCHEMA_VERSION,
+  type SchemaVersion,
+} from "@/lib/schema-versions";
+import type { ValidationError } from "@/lib/validate-metadata";
+import { createFinding } from "@/lib/validation-rules";
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+interface JsonSchema {
+  [keyword: string]: unknown;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+}
+
+// Object schemas as zod-to-json-schema generates them
+type ObjectSchema = JsonSchema & { properties: Record<string, JsonSchema> };
+
+export interface ExternalJsonSchema {
+  title: string;
+  validate: (data: unknown) => ValidationError[];
+}
+
+const NOT_BLANK = { type: "string", pattern: "\\S" };
+const EMPTY = { type: "string", maxLength: 0 };
+
+// Escapes only the characters that are special in a unicode-mode RegExp
+function escapePattern(value: string) {
+  return value.replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&");
+}
+
+// `z.enum(...).or(z.literal(""))` becomes an anyOf whose branches each
+// report an error; a single enum (or plain string) reports one
+function allowingEmpty(property: JsonSchema): JsonSchema {
+  const [values] = property.anyOf ?? [];
+  if (!values) return property;
+  return values.enum
+    ? { type: "string", enum: [...values.enum, ""] }
+    : { type: "string" };
+}
+
+function drivePattern(kinds: string[]) {
+  return kinds
+    .map((kind) => DRIVE_URL_PATTERNS[kind as keyof typeof DRIVE_URL_PATTERNS])
+    .join("|");
+}
+
+/**
+ * Converts a schema version's Zod schema to JSON Schema 2020-12. Shapes come
+ * from the Zod definition; the refinements Zod can't describe (codebase and
+ * issue field conditions, the model registry, Drive links) are added by hand
+ * and must be kept in step with `lib/metadata-schema.ts`.
+ */
+export function buildMetadataJsonSchema(
+  version: SchemaVersion = CURRENT_SCHEMA_VERSION,
+  profile: RuleProfile = DEFAULT_PROFILE
+): JsonSchema {
+  const generated = zodToJsonSchema(version.getSchema(profile), {
+    target: "jsonSchema2019-09",
+    $refStrategy: "none",
+    // The checker strips unknown keys rather than rejecting them, so the
+    // export leaves additionalProperties open too
+    removeAdditionalStrategy: "strict",
+  }) as ObjectSchema;
+  // Replaced by the 2020-12 dialect the result declares
+  delete generated.$schema;
+  const properties = generated.properties;
+  const promptSchema = properties.prompts.items as ObjectSchema;
+
+  // zod-to-json-schema over-escapes startsWith prefixes (e.g. "\-"), which
+  // is invalid under the unicode flag 2020-12 validators use
+  properties.jira_id.pattern = `^${escapePattern(profile.jiraPrefix)}`;
+  properties.model = {
+    type: "string",
+    description:
+      "A model ID from the model registry. Active date ranges are only checked by the Metadata Checker.",
+    enum: MODEL_REGISTRY.map((model) => model.id),
+  };
+  properties.root_gdrive = {
+    type: "string",
+    pattern: drivePattern(DRIVE_LINK_RULES.rootGdrive),
+  };
+  promptSchema.properties.gdrive = {
+    type: "string",
+    pattern: drivePattern(DRIVE_LINK_RULES.promptGdrive),
+  };
+  for (const key of ["issue_type", "issue_comment", "issue_source"]) {
+    promptSchema.properties[key] = allowingEmpty(promptSchema.properties[key]);
+  }
+
+  // Codebase details are required for existing codebases, empty otherwise
+  generated.if = {
+    type: "object",
+    properties: { workflow: { const: "existing_codebase" } },
+    required: ["workflow"],
+  };
+  generated.then = {
+    type: "object",
+    properties: {
+      codebase: {
+        type: "object",
+        required: ["url", "description"],
+        properties: { url: NOT_BLANK, description: NOT_BLANK },
+      },
+    },
+  };
+  generated.else = {
+    type: "object",
+    properties: {
+      codebase: {
+        type: "object",
+        properties: { url: EMPTY, description: EMPTY },
+      },
+    },
+  };
+
+  // Issue fields are required below the top level of correctness
+  promptSchema.if = {
+    type: "object",
+    properties: {
+      level_of_correctness: { const: profile.levelOfCorrectness.max },
+    },
+    required: ["level_of_correctness"],
+  };
+  promptSchema.else = {
+    type: "object",
+    required: ["issue_type", "issue_comment", "issue_source"],
+    properties: {
+      issue_type: { type: "string", minLength: 1 },
+      issue_comment: NOT_BLANK,
+      issue_source: NOT_BLANK,
+    },
+  };
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: `urn:metadata-check:schema:${profile.id}:metadata-${version.id}`,
+    title: `Evaluation metadata (${profile.name}, ${version.label})`,
+    ...generated,
+  };
+}
+
+function ajvFor(schema: JsonSchema) {
+  const options = { allErrors: true, strict: false, validateFormats: false };
+  const dialect = String(schema.$schema ?? "");
+  if (dialect.includes("2019-09")) return new Ajv2019(options);
+  if (/draft-0[467]/.test(dialect)) return new Ajv(options);
+  return new Ajv2020(options);
+}
+
+function toValidationError(error: ErrorObject): ValidationError {
+  const path = error.instancePath.split("/").slice(1);
+  if (error.keyword === "required") path.push(error.params.missingProperty);
+  const field = path.join(".") || "json";
+  const promptIndex = field.match(/^prompts\.(\d+)/)?.[1];
+
+  return createFinding("JSON_SCHEMA_VIOLATION", {
+    field,
+    message: `${error.message ?? "is invalid"} (${error.keyword})`,
+    index: promptIndex ? parseInt(promptIndex) : undefined,
+  });
+}
+
+/**
+ * Compiles a JSON Schema loaded by the user. Draft-04 to 2020-12 schemas are
+ * supported; throws when the text is not JSON or not a valid schema.
+ */
+export function compileExternalJsonSchema(text: string): ExternalJsonSchema {
+  const schema = JSON.parse(text) as JsonSchema;
+  if (schema === null || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error("A JSON Schema must be an object");
+  }
+  const validate = ajvFor(schema).compile(schema as AnySchema);
+
+  return {
+    title: typeof schema.title === "string" ? schema.title : "Untitled schema",
+    validate: (data) =>
+      validate(data)
+        ? []
+        : (validate.errors ?? [])
+            // "must match then schema" only repeats the errors inside it
+            .filter((error) => error.keyword !== "if")
+            .map(toValidationError),
+  };
+}
@@ -0,0 +1,15 @@
+// Narrowing for parsed JSON documents, which may have any shape until the
+// schema has checked them
+export type JsonObject = Record<string, unknown>;
+
+export function isPlainObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// A document's prompts; non-object prompts are already schema errors and
+// read as `{}` so indices stay aligned with the document
+export function documentPrompts(document: JsonObject): JsonObject[] {
+  return Array.isArray(document.prompts)
+    ? document.prompts.map((prompt) => (isPlainObject(prompt) ? prompt : {}))
+    : [];
+}
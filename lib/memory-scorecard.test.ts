@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import { buildMemoryScorecard } from "@/lib/memory-scorecard";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+
+function scorecard(document: ReturnType<typeof validMetadata>) {
+  return buildMemoryScorecard(document, DEFAULT_PROFILE);
+}
+
+function withMemoryComment(comment: string) {
+  const document = validMetadata();
+  document.memory.memory_comment = comment;
+  return document;
+}
+
+describe("buildMemoryScorecard", () => {
+  it("scores the weighted share of yes answers", () => {
+    const document = validMetadata();
+    expect(scorecard(document).score).toBe(100);
+    document.memory.context_accuracy = "no";
+    document.memory.remembers_environment = "no";
+    expect(scorecard(document).score).toBe(75);
+  });
+
+  it("summarizes correctness across prompts", () => {
+    const document = validMetadata(2);
+    document.prompts[1] = {
+      ...document.prompts[1],
+      level_of_correctness: 0,
+      issue_type: "tool",
+    };
+    expect(scorecard(document).correctness).toMatchObject({
+      promptCount: 2,
+      average: 1,
+      fullyCorrect: 1,
+      issueTypes: [{ issueType: "tool", count: 1 }],
+    });
+  });
+});
+
+describe("memory contradictions", () => {
+  it("flags failures reported against yes answers", () => {
+    const document = withMemoryComment("It forgot the environment setup");
+    expect(scorecard(document).contradictions).toEqual([
+      {
+        field: "memory.memory_comment",
+        index: undefined,
+        message:
+          'Comment reports a memory failure, but memory.remembers_environment is "yes"',
+      },
+    ]);
+    document.memory.remembers_environment = "no";
+    expect(scorecard(document).contradictions).toEqual([]);
+  });
+
+  it("ignores negated failures", () => {
+    [
+      "It never forgot the environment setup and didn't forget earlier bug fixes",
+      "It did not forget the naming conventions",
+      "It doesn't misremember file names",
+    ].forEach((comment) => {
+      expect(scorecard(withMemoryComment(comment)).contradictions).toEqual([]);
+    });
+    expect(
+      scorecard(withMemoryComment("It never forgot the setup but forgot bugs"))
+        .contradictions
+    ).toHaveLength(1);
+  });
+
+  it("treats ignoring irrelevant notes as no failure", () => {
+    expect(
+      scorecard(withMemoryComment("It ignored the irrelevant notes"))
+        .contradictions
+    ).toEqual([]);
+    expect(
+      scorecard(withMemoryComment("It ignored my earlier instructions"))
+        .contradictions
+    ).toHaveLength(1);
+  });
+
+  it("reports missing_memory issues as the quality check does", () => {
+    const document = validMetadata();
+    document.prompts[0] = {
+      ...document.prompts[0],
+      level_of_correctness: 0,
+      issue_type: "missing_memory",
+    };
+    expect(scorecard(document).contradictions).toEqual([
+      {
+        field: "memory",
+        message:
+          'All memory answers are "yes" but a missing_memory issue is reported in prompts[0]',
+      },
+    ]);
+  });
+});
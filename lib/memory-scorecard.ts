@@ -0,0 +1,180 @@
+import {
+  documentPrompts,
+  isPlainObject,
+  type JsonObject,
+} from "@/lib/json-values";
+import { checkQuality, MEMORY_ANSWER_FIELDS } from "@/lib/quality-checks";
+import { rangeValues, type RuleProfile } from "@/lib/profiles";
+
+export type MemoryAnswerField = (typeof MEMORY_ANSWER_FIELDS)[number];
+
+export interface MemoryAnswerScore {
+  field: MemoryAnswerField;
+  answer: string | null;
+  weight: number;
+}
+
+export interface CorrectnessSummary {
+  promptCount: number;
+  // Prompts per level of the profile's scale, highest level first
+  levels: { level: number; count: number }[];
+  average: number | null;
+  fullyCorrect: number;
+  issueTypes: { issueType: string; count: number }[];
+}
+
+export interface MemoryContradiction {
+  field: string;
+  index?: number;
+  message: string;
+}
+
+export interface MemoryScorecard {
+  // Weighted share of "yes" answers, 0–100
+  score: number;
+  answers: MemoryAnswerScore[];
+  correctness: CorrectnessSummary;
+  contradictions: MemoryContradiction[];
+}
+
+// Phrases in a memory comment that report the model failing at memory.
+// Ignoring something irrelevant is what the model should do, so it's no
+// failure.
+const NEGATIVE_MEMORY =
+  /\b(forg[eo]t\w*|did(?:n'?t| not) (?:remember|recall)|does(?:n'?t| not) (?:remember|recall)|fail(?:ed|s)? to (?:remember|recall)|lost (?:track|context)|no memory of|ignored\b(?!\s+(?:\w+\s+)?(?:irrelevant|unrelated)\b)|misremember\w*|hallucinat\w*)/gi;
+
+// A negation right before a failure phrase, as in "never forgot" or
+// "didn't forget", turns it into praise
+const NEGATED = /(?:\bnever|\bnot|n['’]t)\s+$/i;
+
+// What a comment has to mention to be about a particular memory answer
+const ANSWER_TOPICS: Record<MemoryAnswerField, RegExp> = {
+  memory_naturality: /\b(natural\w*|awkward\w*|forced|unprompted)/i,
+  context_accuracy: /\b(context|accura\w*)/i,
+  code_referencing: /\b(referenc\w*|files?|functions?|class\w*)\b/i,
+  remembers_debugging_history: /\b(debug\w*|bugs?|errors?|fix\w*|attempts?)\b/i,
+  maintains_coding_style: /\b(style|conventions?|formatting|naming)\b/i,
+  remembers_environment:
+    /\b(environment|env|setup|install\w*|dependenc\w*|versions?)\b/i,
+  avoids_referencing_irrelevant_memory: /\birrelevant\b/i,
+  avoids_storing_irrelevant_memory: /\birrelevant\b/i,
+};
+
+function reportsMemoryFailure(comment: string) {
+  return [...comment.matchAll(NEGATIVE_MEMORY)].some(
+    ({ index }) => !NEGATED.test(comment.slice(0, index))
+  );
+}
+
+function summarizeCorrectness(
+  prompts: JsonObject[],
+  profile: RuleProfile
+): CorrectnessSummary {
+  const levels = prompts
+    .map((prompt) => prompt.level_of_correctness)
+    .filter((level): level is number => typeof level === "number");
+  const issueTypes = new Map<string, number>();
+  prompts.forEach(({ issue_type }) => {
+    if (typeof issue_type === "string" && issue_type !== "") {
+      issueTypes.set(issue_type, (issueTypes.get(issue_type) ?? 0) + 1);
+    }
+  });
+
+  return {
+    promptCount: prompts.length,
+    levels: rangeValues(profile.levelOfCorrectness).map((level) => ({
+      level,
+      count: levels.filter((value) => value === level).length,
+    })),
+    average:
+      levels.length > 0
+        ? levels.reduce((sum, level) => sum + level, 0) / levels.length
+        : null,
+    fullyCorrect: levels.filter(
+      (level) => level === profile.levelOfCorrectness.max
+    ).length,
+    issueTypes: [...issueTypes]
+      .map(([issueType, count]) => ({ issueType, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+function answerList(fields: readonly MemoryAnswerField[]) {
+  return fields.map((field) => `memory.${field}`).join(", ");
+}
+
+/**
+ * Heuristic: a memory comment that reports a memory failure contradicts the
+ * overall answers it mentions when those are "yes". Comments that mention no
+ * particular answer only contradict an all-"yes" memory block.
+ */
+function findContradictions(
+  document: JsonObject,
+  memory: JsonObject,
+  prompts: JsonObject[]
+): MemoryContradiction[] {
+  const allYes = MEMORY_ANSWER_FIELDS.every((field) => memory[field] === "yes");
+  const comments: { field: string; index?: number; comment: unknown }[] = [
+    { field: "memory.memory_comment", comment: memory.memory_comment },
+    ...prompts.map((prompt, index) => ({
+      field: `prompts.${index}.memory_comment`,
+      index,
+      comment: prompt.memory_comment,
+    })),
+  ];
+
+  const contradictions: MemoryContradiction[] = [];
+  comments.forEach(({ field, index, comment }) => {
+    if (typeof comment !== "string" || !reportsMemoryFailure(comment)) return;
+    const topics = MEMORY_ANSWER_FIELDS.filter((answer) =>
+      ANSWER_TOPICS[answer].test(comment)
+    );
+    const contradicted = topics.filter((answer) => memory[answer] === "yes");
+    if (contradicted.length > 0) {
+      contradictions.push({
+        field,
+        index,
+        message: `Comment reports a memory failure, but ${answerList(contradicted)} ${contradicted.length === 1 ? "is" : "are"} "yes"`,
+      });
+    } else if (topics.length === 0 && allYes) {
+      contradictions.push({
+        field,
+        index,
+        message:
+          'Comment reports a memory failure, but every memory answer is "yes"',
+      });
+    }
+  });
+
+  // missing_memory issues against all-"yes" answers are already a quality
+  // warning; show the same finding here
+  checkQuality(document)
+    .filter(({ ruleId }) => ruleId === "MEMORY_ANSWERS_CONTRADICT_ISSUES")
+    .forEach(({ field, message }) => contradictions.push({ field, message }));
+  return contradictions;
+}
+
+export function buildMemoryScorecard(
+  document: JsonObject,
+  profile: RuleProfile
+): MemoryScorecard {
+  const memory = isPlainObject(document.memory) ? document.memory : {};
+  const prompts = documentPrompts(document);
+
+  const answers = MEMORY_ANSWER_FIELDS.map((field) => ({
+    field,
+    answer: typeof memory[field] === "string" ? memory[field] : null,
+    weight: profile.memoryWeights[field] ?? 1,
+  }));
+  const totalWeight = answers.reduce((sum, { weight }) => sum + weight, 0);
+  const yesWeight = answers
+    .filter(({ answer }) => answer === "yes")
+    .reduce((sum, { weight }) => sum + weight, 0);
+
+  return {
+    score: totalWeight > 0 ? Math.round((yesWeight / totalWeight) * 100) : 0,
+    answers,
+    correctness: summarizeCorrectness(prompts, profile),
+    contradictions: findContradictions(document, memory, prompts),
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  countChanges,
+  diffMetadata,
+  formatDiffMarkdown,
+  promptLabel,
+} from "@/lib/metadata-diff";
+
+function corrected() {
+  const document = validMetadata(3);
+  const result: Record<string, unknown> = {
+    ...document,
+    jira_id: `${document.jira_id}4`,
+    notes: "added",
+    memory: { ...document.memory, context_accuracy: "no" },
+  };
+  delete result.model;
+  return result;
+}
+
+describe("diffMetadata", () => {
+  it("reports top-level and section changes", () => {
+    const before = validMetadata(3);
+    const diff = diffMetadata(before, corrected());
+    expect(diff.fields).toEqual([
+      {
+        path: "jira_id",
+        kind: "changed",
+        before: before.jira_id,
+        after: `${before.jira_id}4`,
+      },
+      { path: "model", kind: "removed", before: before.model },
+      { path: "notes", kind: "added", after: "added" },
+    ]);
+    expect(diff.codebase).toEqual([]);
+    expect(diff.memory).toEqual([
+      { path: "context_accuracy", kind: "changed", before: "yes", after: "no" },
+    ]);
+    expect(countChanges(diff)).toBe(4);
+  });
+
+  it("treats invalid documents as empty", () => {
+    const diff = diffMetadata(null, { uuid: "x", prompts: [{}] });
+    expect(diff.fields).toEqual([{ path: "uuid", kind: "added", after: "x" }]);
+    expect(diff.prompts).toEqual([
+      { status: "added", afterIndex: 0, text: null, changes: [] },
+    ]);
+  });
+
+  it("aligns prompts by index", () => {
+    const before = validMetadata(3);
+    const after = validMetadata(3);
+    after.prompts = [after.prompts[1], after.prompts[0]];
+    expect(
+      diffMetadata(before, after).prompts.map(({ status }) => status)
+    ).toEqual(["changed", "changed", "removed"]);
+  });
+
+  it("aligns reordered prompts by their text", () => {
+    const before = validMetadata(3);
+    const after = validMetadata(3);
+    after.prompts = [
+      { ...after.prompts[2], comment: "Reworded" },
+      after.prompts[0],
+      { ...after.prompts[1], prompt: "New prompt" },
+    ];
+    const prompts = diffMetadata(before, after, "prompt").prompts;
+    expect(prompts).toMatchObject([
+      {
+        status: "changed",
+        beforeIndex: 2,
+        afterIndex: 0,
+        changes: [{ path: "comment", after: "Reworded" }],
+      },
+      { status: "unchanged", beforeIndex: 0, afterIndex: 1 },
+      { status: "added", afterIndex: 2, text: "New prompt" },
+      { status: "removed", beforeIndex: 1, text: "Prompt 2" },
+    ]);
+    expect(prompts.map(promptLabel)).toEqual([
+      "prompts[2] → prompts[0]",
+      "prompts[0] → prompts[1]",
+      "prompts[2] (corrected)",
+      "prompts[1] (original)",
+    ]);
+  });
+});
+
+describe("formatDiffMarkdown", () => {
+  it("writes a table per changed section and escapes cell values", () => {
+    const before = validMetadata();
+    const markdown = formatDiffMarkdown(
+      diffMetadata(before, { ...before, programming_language: "C|C++\nRust" })
+    );
+    expect(markdown).toContain("1 change(s); prompts aligned by index.");
+    expect(markdown).toContain(
+      '| programming_language | changed | "TypeScript" | "C\\|C++\\nRust" |'
+    );
+    expect(markdown).not.toContain("## Memory");
+  });
+});
@@ -0,0 +1,223 @@
+import { isPlainObject } from "@/lib/json-values";
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  // Dotted path relative to the section, e.g. `url` or `memory_naturality`
+  path: string;
+  kind: ChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export type PromptStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface PromptDiff {
+  status: PromptStatus;
+  beforeIndex?: number;
+  afterIndex?: number;
+  // Prompt text of the corrected side, or of the original if removed
+  text: string | null;
+  changes: FieldChange[];
+}
+
+export type PromptAlignment = "index" | "prompt";
+
+export interface MetadataDiff {
+  alignBy: PromptAlignment;
+  fields: FieldChange[];
+  codebase: FieldChange[];
+  memory: FieldChange[];
+  prompts: PromptDiff[];
+}
+
+// Sections with their own part of the diff rather than a top-level entry
+const NESTED_SECTIONS = ["codebase", "memory", "prompts"];
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffObjects(
+  before: unknown,
+  after: unknown,
+  skip: string[] = []
+): FieldChange[] {
+  const left = isPlainObject(before) ? before : {};
+  const right = isPlainObject(after) ? after : {};
+  const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])];
+
+  return keys
+    .filter((key) => !skip.includes(key))
+    .flatMap((key): FieldChange[] => {
+      if (!(key in right)) {
+        return [{ path: key, kind: "removed", before: left[key] }];
+      }
+      if (!(key in left)) {
+        return [{ path: key, kind: "added", after: right[key] }];
+      }
+      return isEqual(left[key], right[key])
+        ? []
+        : [
+            {
+              path: key,
+              kind: "changed",
+              before: left[key],
+              after: right[key],
+            },
+          ];
+    });
+}
+
+function promptText(prompt: unknown) {
+  return isPlainObject(prompt) && typeof prompt.prompt === "string"
+    ? prompt.prompt.trim()
+    : null;
+}
+
+// Pairs prompts by position, or by identical prompt text so reordering
+// doesn't show up as every prompt changing
+function alignPrompts(
+  before: unknown[],
+  after: unknown[],
+  alignBy: PromptAlignment
+): [number | undefined, number | undefined][] {
+  if (alignBy === "index") {
+    return Array.from(
+      { length: Math.max(before.length, after.length) },
+      (_, i) => [
+        i < before.length ? i : undefined,
+        i < after.length ? i : undefined,
+      ]
+    );
+  }
+
+  const unmatched = new Set(before.map((_, i) => i));
+  const pairs: [number | undefined, number | undefined][] = after.map(
+    (prompt, afterIndex) => {
+      const text = promptText(prompt);
+      const match = [...unmatched].find(
+        (i) => text !== null && promptText(before[i]) === text
+      );
+      if (match === undefined) return [undefined, afterIndex];
+      unmatched.delete(match);
+      return [match, afterIndex];
+    }
+  );
+  unmatched.forEach((beforeIndex) => pairs.push([beforeIndex, undefined]));
+  return pairs;
+}
+
+/**
+ * Compares two metadata documents section by section. Either side may be
+ * invalid metadata; missing sections are treated as empty.
+ */
+export function diffMetadata(
+  before: unknown,
+  after: unknown,
+  alignBy: PromptAlignment = "index"
+): MetadataDiff {
+  const left = isPlainObject(before) ? before : {};
+  const right = isPlainObject(after) ? after : {};
+  const beforePrompts = Array.isArray(left.prompts) ? left.prompts : [];
+  const afterPrompts = Array.isArray(right.prompts) ? right.prompts : [];
+
+  const prompts = alignPrompts(beforePrompts, afterPrompts, alignBy).map(
+    ([beforeIndex, afterIndex]): PromptDiff => {
+      if (afterIndex === undefined) {
+        const text = promptText(beforePrompts[beforeIndex!]);
+        return { status: "removed", beforeIndex, text, changes: [] };
+      }
+      const text = promptText(afterPrompts[afterIndex]);
+      if (beforeIndex === undefined) {
+        return { status: "added", afterIndex, text, changes: [] };
+      }
+      const changes = diffObjects(
+        beforePrompts[beforeIndex],
+        afterPrompts[afterIndex]
+      );
+      return {
+        status: changes.length > 0 ? "changed" : "unchanged",
+        beforeIndex,
+        afterIndex,
+        text,
+        changes,
+      };
+    }
+  );
+
+  return {
+    alignBy,
+    fields: diffObjects(left, right, NESTED_SECTIONS),
+    codebase: diffObjects(left.codebase, right.codebase),
+    memory: diffObjects(left.memory, right.memory),
+    prompts,
+  };
+}
+
+export function countChanges(diff: MetadataDiff) {
+  return (
+    diff.fields.length +
+    diff.codebase.length +
+    diff.memory.length +
+    diff.prompts.filter((prompt) => prompt.status !== "unchanged").length
+  );
+}
+
+export function promptLabel({ beforeIndex, afterIndex }: PromptDiff) {
+  if (beforeIndex === undefined) return `prompts[${afterIndex}] (corrected)`;
+  if (afterIndex === undefined) return `prompts[${beforeIndex}] (original)`;
+  if (afterIndex === beforeIndex) return `prompts[${beforeIndex}]`;
+  return `prompts[${beforeIndex}] → prompts[${afterIndex}]`;
+}
+
+export function formatDiffValue(value: unknown) {
+  return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+function markdownRows(changes: FieldChange[]) {
+  const escape = (value: unknown) =>
+    formatDiffValue(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+  return [
+    "| Field | Change | Before | After |",
+    "| --- | --- | --- | --- |",
+    ...changes.map(
+      (change) =>
+        `| ${change.path} | ${change.kind} | ${escape(change.before)} | ${escape(change.after)} |`
+    ),
+  ];
+}
+
+export function formatDiffMarkdown(diff: MetadataDiff): string {
+  const lines = [
+    "# Metadata diff",
+    "",
+    `${countChanges(diff)} change(s); prompts aligned by ${diff.alignBy}.`,
+  ];
+  const sections: [string, FieldChange[]][] = [
+    ["Top-level fields", diff.fields],
+    ["Codebase", diff.codebase],
+    ["Memory", diff.memory],
+  ];
+  sections.forEach(([title, changes]) => {
+    if (changes.length === 0) return;
+    lines.push("", `## ${title}`, "", ...markdownRows(changes));
+  });
+
+  const changedPrompts = diff.prompts.filter(
+    (prompt) => prompt.status !== "unchanged"
+  );
+  if (changedPrompts.length > 0) {
+    lines.push("", "## Prompts");
+    changedPrompts.forEach((prompt) => {
+      lines.push("", `### ${promptLabel(prompt)}: ${prompt.status}`);
+      if (prompt.status !== "changed" && prompt.text) {
+        lines.push("", `> ${prompt.text.replace(/\n/g, " ")}`);
+      }
+      if (prompt.changes.length > 0) {
+        lines.push("", ...markdownRows(prompt.changes));
+      }
+    });
+  }
+  return lines.join("\n");
+}
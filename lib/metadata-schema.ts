@@ -0,0 +1,271 @@
+import { z } from "zod";
+import {
+  describeDriveUrlProblem,
+  DRIVE_LINK_RULES,
+  type DriveLinkKind,
+} from "@/lib/gdrive";
+import { isPlainObject } from "@/lib/json-values";
+import { describeModelProblem, getActiveModels } from "@/lib/models";
+import { DEFAULT_PROFILE, type RuleProfile } from "@/lib/profiles";
+
+const driveUrl = (allowedKinds: DriveLinkKind[]) =>
+  z.string().superRefine((url, ctx) => {
+    const problem =
+      url === ""
+        ? "Google Drive link is required"
+        : describeDriveUrlProblem(url, allowedKinds);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  });
+
+export const PROMPT_USECASES = [
+  "initial_development",
+  "feature_implementation",
+  "debugging_fixes",
+  "optimization_testing",
+] as const;
+
+export const ISSUE_TYPES = [
+  "missing_memory",
+  "technical_inconsistency",
+  "tool",
+  "code_correctness",
+  "setup",
+  "other",
+] as const;
+
+// Comments a profile doesn't require may be left empty
+const comment = (required: boolean, message: string) =>
+  required ? z.string().min(1, message) : z.string();
+
+const createMetadataFieldsV1 = (profile: RuleProfile) =>
+  z.object({
+    uuid: z.string().min(1, "UUID is required"),
+    jira_id: z
+      .string()
+      .min(1, "JIRA ID is required")
+      .startsWith(
+        profile.jiraPrefix,
+        `JIRA ID must start with '${profile.jiraPrefix}'`
+      ),
+    programming_language: z.string().min(1, "Programming language is required"),
+    model: z.string().superRefine((id, ctx) => {
+      const problem =
+        id === "" ? "Model is required" : describeModelProblem(id);
+      if (problem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+      }
+    }),
+    root_gdrive: driveUrl(DRIVE_LINK_RULES.rootGdrive),
+    workflow: z.enum(["new_codebase", "existing_codebase"]),
+    codebase: z.object({
+      url: z.string().optional(),
+      description: z.string().optional(),
+    }),
+    prompts: z.array(
+      z
+        .object({
+          hfi_id: z.string(),
+          prompt: z.string().min(1, "Prompt is required"),
+          choice: z.number().min(profile.choice.min).max(profile.choice.max),
+          gdrive: driveUrl(DRIVE_LINK_RULES.promptGdrive),
+          usecase: z.enum(PROMPT_USECASES),
+          comment: comment(
+            profile.requiredComments.prompt,
+            "Comment is required"
+          ),
+          issue_type: z.enum(ISSUE_TYPES).or(z.literal("")).optional(),
+          issue_comment: z.string().or(z.literal("")).optional(),
+          issue_source: z.string().or(z.literal("")).optional(),
+          level_of_correctness: z
+            .number()
+            .min(profile.levelOfCorrectness.min)
+            .max(profile.levelOfCorrectness.max),
+          level_of_correctness_comment: comment(
+            profile.requiredComments.levelOfCorrectness,
+            "Level of correctness comment is required"
+          ),
+          memory_comment: comment(
+            profile.requiredComments.promptMemory,
+            "Memory comment is required"
+          ),
+        })
+        .refine(
+          (data) => {
+            if (data.level_of_correctness !== profile.levelOfCorrectness.max) {
+              return (
+                data.issue_type &&
+                data.issue_comment &&
+                data.issue_source &&
+                data.issue_comment.trim() !== "" &&
+                data.issue_source.trim() !== "" &&
+                data.issue_type.trim() !== ""
+              );
+            }
+            // At the top level of correctness, allow empty string or undefined for issue fields
+            return true;
+          },
+          {
+            message: `Issue type, comment, and source are required when level of correctness is not ${profile.levelOfCorrectness.max}`,
+            path: ["issue_type"],
+          }
+        )
+    ),
+    memory: z.object({
+      memory_comment: comment(
+        profile.requiredComments.memory,
+        "Memory comment is required"
+      ),
+      memory_naturality: z.enum(["yes", "no"]),
+      context_accuracy: z.enum(["yes", "no"]),
+      code_referencing: z.enum(["yes", "no"]),
+      remembers_debugging_history: z.enum(["yes", "no"]),
+      maintains_coding_style: z.enum(["yes", "no"]),
+      remembers_environment: z.enum(["yes", "no"]),
+      avoids_referencing_irrelevant_memory: z.enum(["yes", "no"]),
+      avoids_storing_irrelevant_memory: z.enum(["yes", "no"]),
+    }),
+  });
+
+type MetadataFields = z.infer<ReturnType<typeof createMetadataFieldsV1>>;
+
+// Codebase details are required for existing codebases and must be empty otherwise
+const codebaseRule = (data: Pick<MetadataFields, "workflow" | "codebase">) => {
+  if (data.workflow === "existing_codebase") {
+    return (
+      data.codebase &&
+      typeof data.codebase.url === "string" &&
+      data.codebase.url.trim() !== "" &&
+      typeof data.codebase.description === "string" &&
+      data.codebase.description.trim() !== ""
+    );
+  } else {
+    // For new_codebase, codebase fields must be empty or undefined
+    return (
+      !data.codebase ||
+      ((data.codebase.url === undefined || data.codebase.url === "") &&
+        (data.codebase.description === undefined ||
+          data.codebase.description === ""))
+    );
+  }
+};
+
+const codebaseRuleOptions = {
+  message:
+    "For existing codebase workflow, both URL and description are required. For new codebase, both must be empty.",
+  path: ["codebase"],
+};
+
+function createMetadataSchemas(profile: RuleProfile) {
+  const fields = createMetadataFieldsV1(profile);
+  return {
+    // v1 is the original format, which did not record its own version
+    v1: fields.refine(codebaseRule, codebaseRuleOptions),
+    v2: fields
+      .extend({
+        schema_version: z.literal(2, {
+          errorMap: () => ({
+            message: "schema_version must be 2 for v2 documents",
+          }),
+        }),
+      })
+      .refine(codebaseRule, codebaseRuleOptions),
+  };
+}
+
+export type MetadataSchemas = ReturnType<typeof createMetadataSchemas>;
+
+const schemasByProfile = new Map<string, MetadataSchemas>();
+
+// Schemas are built once per rule profile and reused
+export function getMetadataSchemas(
+  profile: RuleProfile = DEFAULT_PROFILE
+): MetadataSchemas {
+  let schemas = schemasByProfile.get(profile.id);
+  if (!schemas) {
+    schemas = createMetadataSchemas(profile);
+    schemasByProfile.set(profile.id, schemas);
+  }
+  return schemas;
+}
+
+// The fields every version shares; the generator adds the selected
+// version's `schema_version` marker when it writes a document
+export type MetadataFormData = z.infer<MetadataSchemas["v1"]> & {
+  schema_version?: number;
+};
+
+export function getDefaultPromptValues(
+  profile: RuleProfile = DEFAULT_PROFILE
+): MetadataFormData["prompts"][number] {
+  return {
+    hfi_id: "",
+    prompt: "",
+    choice: profile.choice.min,
+    gdrive: "",
+    usecase: "initial_development",
+    comment: "",
+    level_of_correctness: profile.levelOfCorrectness.max,
+    level_of_correctness_comment: "",
+    memory_comment: "",
+  };
+}
+
+export function getDefaultMetadataValues(
+  profile: RuleProfile = DEFAULT_PROFILE
+): MetadataFormData {
+  return {
+    uuid: "",
+    jira_id: profile.jiraPrefix,
+    programming_language: "",
+    model: getActiveModels()[0]?.id ?? "",
+    root_gdrive: "",
+    workflow: "new_codebase",
+    codebase: {
+      url: "",
+      description: "",
+    },
+    prompts: [getDefaultPromptValues(profile)],
+    memory: {
+      memory_comment: "",
+      memory_naturality: "yes",
+      context_accuracy: "yes",
+      code_referencing: "yes",
+      remembers_debugging_history: "yes",
+      maintains_coding_style: "yes",
+      remembers_environment: "yes",
+      avoids_referencing_irrelevant_memory: "yes",
+      avoids_storing_irrelevant_memory: "yes",
+    },
+  };
+}
+
+/**
+ * Maps an arbitrary (possibly invalid) metadata document onto the
+ * generator's form shape. Missing sections fall back to the defaults, while
+ * present values are kept as-is so the schema can flag them in the form.
+ */
+export function toMetadataFormValues(
+  data: unknown,
+  profile: RuleProfile = DEFAULT_PROFILE
+): MetadataFormData {
+  const defaults = getDefaultMetadataValues(profile);
+  const document = isPlainObject(data) ? data : {};
+  const codebase = isPlainObject(document.codebase) ? document.codebase : {};
+  const memory = isPlainObject(document.memory) ? document.memory : {};
+  const prompts = Array.isArray(document.prompts)
+    ? document.prompts.map((prompt) => ({
+        ...getDefaultPromptValues(profile),
+        ...(isPlainObject(prompt) ? prompt : {}),
+      }))
+    : defaults.prompts;
+
+  return {
+    ...defaults,
+    ...document,
+    codebase: { ...defaults.codebase, ...codebase },
+    prompts: prompts.length > 0 ? prompts : defaults.prompts,
+    memory: { ...defaults.memory, ...memory },
+  } as MetadataFormData;
+}
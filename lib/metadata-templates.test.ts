@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { UUID, validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  applyTemplate,
+  createTemplate,
+  parseTemplateFile,
+  serializeTemplates,
+  templateValuesFrom,
+  type MetadataTemplate,
+} from "@/lib/metadata-templates";
+
+function template(values: MetadataTemplate["values"]): MetadataTemplate {
+  return { id: "t1", name: "Template", values, createdAt: 0, updatedAt: 0 };
+}
+
+describe("templateValuesFrom", () => {
+  it("drops identity fields and blanks", () => {
+    const form = validMetadata();
+    form.programming_language = "";
+    const values = templateValuesFrom(form);
+    expect(values).not.toHaveProperty("uuid");
+    expect(values).not.toHaveProperty("programming_language");
+    expect(values.prompts?.[0]).not.toHaveProperty("hfi_id");
+    expect(values.prompts?.[0]).not.toHaveProperty("issue_type");
+    expect(values.memory?.memory_comment).toBe("Kept the project layout");
+  });
+});
+
+describe("applyTemplate", () => {
+  it("keeps prompt fields a slot doesn't define", () => {
+    const current = validMetadata();
+    current.prompts[0] = {
+      ...current.prompts[0],
+      comment: "my comment",
+      memory_comment: "mm",
+      choice: 5,
+    };
+    const [prompt] = applyTemplate(
+      current,
+      template({ prompts: [{ usecase: "debugging_fixes" }] })
+    ).prompts;
+    expect(prompt).toEqual({
+      ...current.prompts[0],
+      usecase: "debugging_fixes",
+    });
+  });
+
+  it("ignores blank slot fields", () => {
+    const current = validMetadata();
+    const [prompt] = applyTemplate(
+      current,
+      template({ prompts: [{ comment: "", issue_type: "", choice: 3 }] })
+    ).prompts;
+    expect(prompt).toEqual({ ...current.prompts[0], choice: 3 });
+  });
+
+  it("fills slots beyond the current prompts from the defaults", () => {
+    const current = validMetadata(2);
+    const { prompts, uuid } = applyTemplate(
+      current,
+      template({ prompts: [{}, {}, { comment: "Third" }] })
+    );
+    expect(uuid).toBe(UUID);
+    expect(prompts.slice(0, 2)).toEqual(current.prompts);
+    expect(prompts[2]).toMatchObject({
+      hfi_id: "",
+      prompt: "",
+      comment: "Third",
+    });
+  });
+
+  it("drops blank prompts beyond the template's slots", () => {
+    const current = validMetadata(3);
+    current.prompts[2] = {
+      ...current.prompts[2],
+      hfi_id: "",
+      prompt: "",
+      gdrive: "",
+    };
+    const { prompts } = applyTemplate(current, template({ prompts: [{}] }));
+    expect(prompts).toEqual(current.prompts.slice(0, 2));
+  });
+
+  it("merges memory and top-level fields", () => {
+    const current = validMetadata();
+    const applied = applyTemplate(
+      current,
+      template({
+        programming_language: "Go",
+        memory: { context_accuracy: "no" },
+      })
+    );
+    expect(applied.programming_language).toBe("Go");
+    expect(applied.memory).toEqual({
+      ...current.memory,
+      context_accuracy: "no",
+    });
+    expect(applied.prompts).toBe(current.prompts);
+  });
+});
+
+describe("template files", () => {
+  it("round-trips serialized templates", () => {
+    const saved = createTemplate("Go", validMetadata(), "Go tasks");
+    expect(parseTemplateFile(serializeTemplates([saved]))).toEqual([saved]);
+  });
+
+  it("rejects files that aren't template exports", () => {
+    expect(() => parseTemplateFile("{")).toThrow(
+      "Template file is not valid JSON"
+    );
+    expect(() => parseTemplateFile('{"format": "other"}')).toThrow(
+      /^Not a template export: format: /
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import {
+  getDefaultPromptValues,
+  ISSUE_TYPES,
+  PROMPT_USECASES,
+  type MetadataFormData,
+} from "@/lib/metadata-schema";
+import { DEFAULT_PROFILE, type RuleProfile } from "@/lib/profiles";
+import { MEMORY_ANSWER_FIELDS } from "@/lib/quality-checks";
+
+// Task-specific fields a template never stores or overwrites
+const IDENTITY_FIELDS = ["uuid", "jira_id", "root_gdrive"] as const;
+const PROMPT_IDENTITY_FIELDS = ["hfi_id", "prompt", "gdrive"] as const;
+
+const TEMPLATE_FILE_FORMAT = "metadata-check-templates";
+
+type PromptSlotField = Exclude<
+  keyof MetadataFormData["prompts"][number],
+  (typeof PROMPT_IDENTITY_FIELDS)[number]
+>;
+
+// Field types only: ranges and required comments depend on the profile and
+// are checked by the form once the template is applied. Unknown keys are
+// dropped, so a shared file can't add fields the form doesn't have.
+const promptSlotSchema = z
+  .object({
+    choice: z.number(),
+    usecase: z.enum(PROMPT_USECASES),
+    comment: z.string(),
+    issue_type: z.enum(ISSUE_TYPES).or(z.literal("")),
+    issue_comment: z.string(),
+    issue_source: z.string(),
+    level_of_correctness: z.number(),
+    level_of_correctness_comment: z.string(),
+    memory_comment: z.string(),
+  } satisfies Record<PromptSlotField, z.ZodTypeAny>)
+  .partial();
+
+const memoryAnswerSchema = z.enum(["yes", "no"]);
+
+const memorySchema = z
+  .object({
+    memory_comment: z.string(),
+    ...(Object.fromEntries(
+      MEMORY_ANSWER_FIELDS.map((field) => [field, memoryAnswerSchema])
+    ) as Record<
+      (typeof MEMORY_ANSWER_FIELDS)[number],
+      typeof memoryAnswerSchema
+    >),
+  })
+  .partial();
+
+const templateValuesSchema = z.object({
+  programming_language: z.string().optional(),
+  model: z.string().optional(),
+  workflow: z.enum(["new_codebase", "existing_codebase"]).optional(),
+  codebase: z
+    .object({ url: z.string(), description: z.string() })
+    .partial()
+    .optional(),
+  memory: memorySchema.optional(),
+  // Prompt slots: usecase, choice, correctness and comment defaults
+  prompts: z.array(promptSlotSchema).optional(),
+});
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  values: templateValuesSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+// Bump `version` (and migrate old files) when the template format changes
+const templateFileSchema = z.object({
+  format: z.literal(TEMPLATE_FILE_FORMAT),
+  version: z.literal(1),
+  templates: z.array(templateSchema),
+});
+
+export type TemplateValues = z.infer<typeof templateValuesSchema>;
+export type MetadataTemplate = z.infer<typeof templateSchema>;
+
+function omit<T extends Record<string, unknown>>(
+  value: T,
+  keys: readonly string[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !keys.includes(key))
+  );
+}
+
+function withoutBlanks(value: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== "")
+  );
+}
+
+// Keeps a form's reusable parts: everything but UUIDs, JIRA ID and links,
+// memory answers included. Blank top-level, memory and prompt fields are
+// left out so applying doesn't clear what's already been entered.
+export function templateValuesFrom(values: MetadataFormData): TemplateValues {
+  return templateValuesSchema.parse({
+    ...withoutBlanks(omit(values, IDENTITY_FIELDS)),
+    memory: withoutBlanks(values.memory),
+    prompts: values.prompts.map((prompt) =>
+      withoutBlanks(omit(prompt, PROMPT_IDENTITY_FIELDS))
+    ),
+  });
+}
+
+export function createTemplate(
+  name: string,
+  values: MetadataFormData,
+  description?: string
+): MetadataTemplate {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    description,
+    values: templateValuesFrom(values),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function hasIdentity(prompt: MetadataFormData["prompts"][number]) {
+  return PROMPT_IDENTITY_FIELDS.some((key) => prompt[key] !== "");
+}
+
+/**
+ * Applies a template on top of the current form values. UUID, JIRA ID,
+ * root_gdrive and any prompt text, links or HFI IDs already entered are
+ * kept, including prompts beyond the template's slots. Each non-blank field
+ * the template defines is replaced; prompt fields a slot leaves out keep
+ * their current value.
+ */
+export function applyTemplate(
+  current: MetadataFormData,
+  template: MetadataTemplate,
+  profile: RuleProfile = DEFAULT_PROFILE
+): MetadataFormData {
+  const { codebase, memory, prompts = [], ...fields } = template.values;
+  // Blanks are stripped again for template files written by hand
+  const slots = prompts.map((slot, index) => ({
+    ...(current.prompts[index] ?? getDefaultPromptValues(profile)),
+    ...withoutBlanks(omit(slot, PROMPT_IDENTITY_FIELDS)),
+  }));
+
+  return {
+    ...current,
+    ...fields,
+    codebase: { ...current.codebase, ...codebase },
+    memory: { ...current.memory, ...memory },
+    prompts:
+      slots.length > 0
+        ? [...slots, ...current.prompts.slice(slots.length).filter(hasIdentity)]
+        : current.prompts,
+  } as MetadataFormData;
+}
+
+export function serializeTemplates(templates: MetadataTemplate[]): string {
+  return JSON.stringify(
+    { format: TEMPLATE_FILE_FORMAT, version: 1, templates },
+    null,
+    2
+  );
+}
+
+// Throws with a readable message when the file is not a template export
+export function parseTemplateFile(text: string): MetadataTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Template file is not valid JSON");
+  }
+  const result = templateFileSchema.safeParse(data);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const path = issue.path.join(".");
+    throw new Error(
+      `Not a template export: ${path ? `${path}: ` : ""}${issue.message}`
+    );
+  }
+  return result.data.templates;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeModelProblem,
+  findModel,
+  getActiveModels,
+  getModelName,
+  getModelStatus,
+  MODEL_REGISTRY,
+  modelRegistrySchema,
+  type ModelEntry,
+} from "@/lib/models";
+
+const model: ModelEntry = {
+  id: "m",
+  name: "Model",
+  activeFrom: "2025-01-01",
+  activeUntil: "2025-06-30",
+};
+
+function day(iso: string) {
+  return new Date(`${iso}T12:00:00Z`);
+}
+
+describe("getModelStatus", () => {
+  it("treats both bounds as inclusive", () => {
+    expect(getModelStatus(model, day("2024-12-31"))).toBe("upcoming");
+    expect(getModelStatus(model, day("2025-01-01"))).toBe("active");
+    expect(getModelStatus(model, day("2025-06-30"))).toBe("active");
+    expect(getModelStatus(model, day("2025-07-01"))).toBe("retired");
+  });
+
+  it("treats a missing bound as open-ended", () => {
+    expect(getModelStatus({ id: "m", name: "Model" }, day("1999-01-01"))).toBe(
+      "active"
+    );
+  });
+});
+
+describe("model registry", () => {
+  const [registered] = MODEL_REGISTRY;
+
+  it("finds models and names them", () => {
+    expect(findModel(registered.id)).toBe(registered);
+    expect(getModelName(registered.id)).toBe(registered.name);
+    expect(getModelName("unknown")).toBe("unknown");
+  });
+
+  it("lists the models active on a date", () => {
+    expect(getActiveModels()).toContain(registered);
+  });
+
+  it("explains why a model can't be used", () => {
+    expect(describeModelProblem(registered.id)).toBeNull();
+    expect(describeModelProblem("unknown")).toBe(
+      `Unknown model "unknown". Allowed models: ${getActiveModels()
+        .map(({ name }) => name)
+        .join(", ")}`
+    );
+  });
+});
+
+describe("modelRegistrySchema", () => {
+  function issues(models: object[]) {
+    return modelRegistrySchema
+      .safeParse({ models })
+      .error?.issues.map(({ message }) => message);
+  }
+
+  it("accepts open-ended and dated models", () => {
+    expect(issues([model, { id: "n", name: "Next" }])).toBeUndefined();
+  });
+
+  it("rejects malformed and impossible dates", () => {
+    ["2025-1-01", "2025-02-30", "2025-13-01", "soon"].forEach((activeFrom) => {
+      expect(issues([{ id: "m", name: "Model", activeFrom }])).toEqual([
+        "Dates must be valid YYYY-MM-DD dates",
+      ]);
+    });
+  });
+
+  it("rejects reversed date ranges and duplicate IDs", () => {
+    expect(issues([{ ...model, activeFrom: "2026-01-01" }])).toEqual([
+      "activeFrom must not be after activeUntil",
+    ]);
+    expect(issues([model, model])).toEqual(["Model IDs must be unique"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import registry from "@/config/models.json";
+
+function toIsoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Calendar dates only: "2025-02-30" or "2025-2-1" would compare wrongly
+const isoDate = z.string().refine((value) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(date.getTime()) &&
+    toIsoDate(date) === value
+  );
+}, "Dates must be valid YYYY-MM-DD dates");
+
+const modelEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    // Inclusive bounds; a missing bound is open-ended
+    activeFrom: isoDate.optional(),
+    activeUntil: isoDate.optional(),
+  })
+  .refine(
+    (model) =>
+      !model.activeFrom ||
+      !model.activeUntil ||
+      model.activeFrom <= model.activeUntil,
+    "activeFrom must not be after activeUntil"
+  );
+
+export const modelRegistrySchema = z
+  .object({ models: z.array(modelEntrySchema).min(1) })
+  .refine(
+    ({ models }) =>
+      new Set(models.map((model) => model.id)).size === models.length,
+    "Model IDs must be unique"
+  );
+
+export type ModelEntry = z.infer<typeof modelEntrySchema>;
+
+export type ModelStatus = "active" | "upcoming" | "retired";
+
+export const MODEL_REGISTRY: ModelEntry[] =
+  modelRegistrySchema.parse(registry).models;
+
+export function findModel(id: string): ModelEntry | undefined {
+  return MODEL_REGISTRY.find((model) => model.id === id);
+}
+
+export function getModelStatus(
+  model: ModelEntry,
+  date: Date = new Date()
+): ModelStatus {
+  const day = toIsoDate(date);
+  if (model.activeFrom && day < model.activeFrom) return "upcoming";
+  if (model.activeUntil && day > model.activeUntil) return "retired";
+  return "active";
+}
+
+export function getActiveModels(date: Date = new Date()): ModelEntry[] {
+  return MODEL_REGISTRY.filter(
+    (model) => getModelStatus(model, date) === "active"
+  );
+}
+
+export function getModelName(id: string): string {
+  return findModel(id)?.name ?? id;
+}
+
+/**
+ * Explains why a model id may not be used today, or returns null when it is
+ * a registered, currently active model.
+ */
+export function describeModelProblem(
+  id: string,
+  date: Date = new Date()
+): string | null {
+  const model = findModel(id);
+  if (!model) {
+    return `Unknown model "${id}". Allowed models: ${getActiveModels(date)
+      .map((active) => active.name)
+      .join(", ")}`;
+  }
+  switch (getModelStatus(model, date)) {
+    case "retired":
+      return `Model "${model.name}" was retired on ${model.activeUntil}`;
+    case "upcoming":
+      return `Model "${model.name}" is not active until ${model.activeFrom}`;
+    default:
+      return null;
+  }
+}
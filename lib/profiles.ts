@@ -0,0 +1,67 @@
+import { z } from "zod";
+import config from "@/config/profiles.json";
+import { MEMORY_ANSWER_FIELDS } from "@/lib/quality-checks";
+import { NORMALIZATION_STEP_IDS } from "@/lib/text-normalization";
+
+const rangeSchema = z
+  .object({ min: z.number().int(), max: z.number().int() })
+  .refine((range) => range.min <= range.max, "min must not exceed max");
+
+const ruleProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Profile IDs are lowercase slugs"),
+  name: z.string().min(1),
+  jiraPrefix: z.string().min(1),
+  choice: rangeSchema,
+  // The top of the scale means "fully correct": no issue fields needed
+  levelOfCorrectness: rangeSchema,
+  requiredComments: z.object({
+    prompt: z.boolean(),
+    levelOfCorrectness: z.boolean(),
+    promptMemory: z.boolean(),
+    memory: z.boolean(),
+  }),
+  // Text normalization steps selected by default when copying prompts
+  normalization: z.array(z.enum(NORMALIZATION_STEP_IDS)).default([]),
+  // Weight of each memory answer in the scorecard; unlisted answers weigh 1
+  memoryWeights: z
+    .record(z.enum(MEMORY_ANSWER_FIELDS), z.number().nonnegative())
+    .default({}),
+});
+
+// Bump `version` (and migrate old files) when the profile format changes
+const profileConfigSchema = z
+  .object({
+    version: z.literal(1),
+    defaultProfile: z.string(),
+    profiles: z.array(ruleProfileSchema).min(1),
+  })
+  .refine(
+    (file) => file.profiles.some((p) => p.id === file.defaultProfile),
+    "defaultProfile must name one of the profiles"
+  );
+
+export type RuleProfile = z.infer<typeof ruleProfileSchema>;
+
+const profileConfig = profileConfigSchema.parse(config);
+
+export const RULE_PROFILES: RuleProfile[] = profileConfig.profiles;
+
+export const DEFAULT_PROFILE = RULE_PROFILES.find(
+  (profile) => profile.id === profileConfig.defaultProfile
+)!;
+
+export function findProfile(id: string): RuleProfile | undefined {
+  return RULE_PROFILES.find((profile) => profile.id === id);
+}
+
+export function getProfile(id: string | undefined): RuleProfile {
+  if (id === undefined) return DEFAULT_PROFILE;
+  const profile = findProfile(id);
+  if (!profile) throw new Error(`Unknown rule profile "${id}"`);
+  return profile;
+}
+
+// Every whole number of a range, highest first, for select options
+export function rangeValues({ min, max }: { min: number; max: number }) {
+  return Array.from({ length: max - min + 1 }, (_, i) => max - i);
+}
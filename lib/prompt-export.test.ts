@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatPromptsCsv,
+  formatPromptsJsonl,
+  formatPromptsMarkdown,
+  PROMPT_EXPORT_FIELDS,
+} from "@/lib/prompt-export";
+
+const prompt = {
+  prompt: 'Fix the "login" bug,\nthen add tests',
+  choice: 3,
+  usecase: "debugging_fixes",
+  level_of_correctness: 2,
+};
+
+function csvRows(prompts: unknown[]) {
+  return formatPromptsCsv(prompts).slice(1).split("\r\n");
+}
+
+function firstCell(value: string) {
+  const [, row] = csvRows([{ prompt: value }]);
+  return row.split(",")[1];
+}
+
+describe("formatPromptsCsv", () => {
+  it("starts with a byte order mark and a header row", () => {
+    const csv = formatPromptsCsv([]);
+    expect(csv.startsWith("﻿")).toBe(true);
+    expect(csvRows([])[0]).toBe(
+      ["#", ...PROMPT_EXPORT_FIELDS.map(({ key }) => key)].join(",")
+    );
+  });
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const [, row] = csvRows([prompt]);
+    expect(row).toMatch(/^1,"Fix the ""login"" bug,\nthen add tests",3,/);
+  });
+
+  it.each(["=SUM(A1)", "+1", "-1+2", "@cmd", "\tx", "\rx"])(
+    "guards %j against formula injection",
+    (value) => {
+      expect(firstCell(value).replace(/^"/, "")).toMatch(/^'/);
+    }
+  );
+
+  it("leaves ordinary text and numbers unguarded", () => {
+    expect(firstCell("Add tests")).toBe("Add tests");
+    const [, row] = csvRows([{ choice: -1 }]);
+    expect(row.split(",")[2]).toBe("-1");
+  });
+});
+
+describe("formatPromptsMarkdown", () => {
+  it("writes a section per prompt with its fields", () => {
+    const markdown = formatPromptsMarkdown([prompt]);
+    expect(markdown).toContain("Fix the");
+    expect(markdown).toContain("debugging_fixes");
+  });
+});
+
+describe("formatPromptsJsonl", () => {
+  it("writes one prompt object per line", () => {
+    const lines = formatPromptsJsonl([prompt, { prompt: "b" }]).split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      prompt,
+      { prompt: "b" },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { isPlainObject } from "@/lib/json-values";
+
+export type PromptExportFormat = "csv" | "markdown" | "jsonl";
+
+// Columns of the CSV export and fields of the Markdown one, in order
+export const PROMPT_EXPORT_FIELDS = [
+  { key: "prompt", label: "Prompt" },
+  { key: "choice", label: "Choice" },
+  { key: "usecase", label: "Use case" },
+  { key: "gdrive", label: "Drive link" },
+  { key: "level_of_correctness", label: "Level of correctness" },
+  {
+    key: "level_of_correctness_comment",
+    label: "Level of correctness comment",
+  },
+  { key: "comment", label: "Comment" },
+  { key: "memory_comment", label: "Memory comment" },
+  { key: "issue_type", label: "Issue type" },
+  { key: "issue_comment", label: "Issue comment" },
+  { key: "issue_source", label: "Issue source" },
+] as const;
+
+function field(prompt: unknown, key: string): unknown {
+  return isPlainObject(prompt) ? prompt[key] : undefined;
+}
+
+function text(value: unknown) {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function csvCell(value: unknown) {
+  let cell = text(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(cell)) cell = `'${cell}`;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * One row per prompt with a leading 1-based `#` column. Starts with a byte
+ * order mark so Excel reads it as UTF-8.
+ */
+export function formatPromptsCsv(prompts: unknown[]): string {
+  const header = ["#", ...PROMPT_EXPORT_FIELDS.map(({ key }) => key)];
+  const rows = prompts.map((prompt, index) => [
+    String(index + 1),
+    ...PROMPT_EXPORT_FIELDS.map(({ key }) => csvCell(field(prompt, key))),
+  ]);
+  return "\uFEFF" + [header, ...rows].map((row) => row.join(",")).join("\r\n");
+}
+
+export function formatPromptsMarkdown(prompts: unknown[]): string {
+  const lines = ["# Prompts", "", `${prompts.length} prompt(s).`];
+  prompts.forEach((prompt, index) => {
+    lines.push("", `## Prompt ${index + 1}`, "");
+    const promptText = text(field(prompt, "prompt"));
+    lines.push(...promptText.split("\n").map((line) => `> ${line}`), "");
+    PROMPT_EXPORT_FIELDS.forEach(({ key, label }) => {
+      const value = text(field(prompt, key));
+      // Issue fields are empty at the top level of correctness
+      if (key === "prompt" || value.trim() === "") return;
+      lines.push(`- **${label}:** ${value.replace(/\n/g, " ")}`);
+    });
+  });
+  return lines.join("\n");
+}
+
+// Prompt objects as they appear in the document, one per line
+export function formatPromptsJsonl(prompts: unknown[]): string {
+  return prompts.map((prompt) => JSON.stringify(prompt)).join("\n");
+}
+
+export const PROMPT_EXPORT_FORMATS: Record<
+  PromptExportFormat,
+  {
+    label: string;
+    extension: string;
+    type: string;
+    format: (prompts: unknown[]) => string;
+  }
+> = {
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    type: "text/csv",
+    format: formatPromptsCsv,
+  },
+  markdown: {
+    label: "Markdown",
+    extension: "md",
+    type: "text/markdown",
+    format: formatPromptsMarkdown,
+  },
+  jsonl: {
+    label: "JSONL",
+    extension: "jsonl",
+    type: "application/jsonl",
+    format: formatPromptsJsonl,
+  },
+};
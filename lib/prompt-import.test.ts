@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { splitPrompts } from "@/lib/prompt-import";
+
+describe("splitPrompts", () => {
+  it("returns no prompts for blank text", () => {
+    expect(splitPrompts("  \n ").prompts).toEqual([]);
+  });
+
+  it("splits at delimiter lines and drops empty entries", () => {
+    expect(splitPrompts("first\n---\n\n---\nsecond\nline two")).toEqual({
+      mode: "delimiter",
+      prompts: ["first", "second\nline two"],
+    });
+  });
+
+  it("uses a custom delimiter", () => {
+    expect(splitPrompts("a\n===\nb", "delimiter", "===").prompts).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("splits at Markdown headings, using a bare heading as the prompt", () => {
+    expect(splitPrompts("## Prompt 1\nSet up\n## Add tests")).toEqual({
+      mode: "headings",
+      prompts: ["Set up", "Add tests"],
+    });
+  });
+
+  it("returns text before the first heading as the preamble", () => {
+    expect(splitPrompts("Session notes\n## P1\nfix the bug")).toEqual({
+      mode: "headings",
+      prompts: ["fix the bug"],
+      preamble: "Session notes",
+    });
+  });
+
+  it("ignores headings and delimiters inside code fences", () => {
+    const snippet = "Run:\n```sh\n# install\nnpm i\n---\n```";
+    expect(splitPrompts(`## P1\n${snippet}\n## P2\nnext`)).toEqual({
+      mode: "headings",
+      prompts: [snippet, "next"],
+    });
+    expect(splitPrompts(`${snippet}\n---\nnext`)).toEqual({
+      mode: "delimiter",
+      prompts: [snippet, "next"],
+    });
+  });
+
+  it("does not close a fence with a shorter or different marker", () => {
+    const snippet = "````md\n```\n# title\n~~~~\n````";
+    expect(splitPrompts(`# P1\n${snippet}\n# P2\nb`).prompts).toEqual([
+      snippet,
+      "b",
+    ]);
+  });
+
+  it("reads a JSON array of strings and prompt objects", () => {
+    expect(splitPrompts('["a", {"prompt": "b"}, {"text": "c"}]')).toEqual({
+      mode: "json",
+      prompts: ["a", "b", "c"],
+    });
+  });
+
+  it("reads JSONL", () => {
+    expect(splitPrompts('{"prompt": "a"}\n\n"b"').prompts).toEqual(["a", "b"]);
+  });
+
+  it("throws readable errors for unusable JSON", () => {
+    expect(() => splitPrompts("[1]")).toThrow(
+      'Item 1 is neither a string nor an object with a "prompt" field'
+    );
+    expect(() => splitPrompts('{"prompt": "a"}\n{bad')).toThrow(
+      "Line 2 is not valid JSON"
+    );
+    expect(() => splitPrompts("[1", "json")).toThrow(
+      "Text is not a valid JSON list"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+export type PromptSplitMode = "auto" | "delimiter" | "headings" | "json";
+
+export const PROMPT_SPLIT_MODES: Record<PromptSplitMode, string> = {
+  auto: "Detect automatically",
+  delimiter: "Delimiter line",
+  headings: "Markdown headings",
+  json: "JSON / JSONL list",
+};
+
+export const DEFAULT_PROMPT_DELIMITER = "---";
+
+export interface PromptSplit {
+  // The mode actually used; "auto" resolves to one of the others
+  mode: Exclude<PromptSplitMode, "auto">;
+  prompts: string[];
+  // Text before the first heading, such as session notes. It is not one of
+  // `prompts`; the caller decides whether to import it.
+  preamble?: string;
+}
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+// Keys an object entry in a JSON list may keep its prompt text under
+const PROMPT_KEYS = ["prompt", "text", "content"] as const;
+
+function cleaned(prompts: string[]) {
+  return prompts.map((prompt) => prompt.trim()).filter(Boolean);
+}
+
+// Marks the lines of fenced code blocks, fences included. Headings and
+// delimiters inside them belong to the prompt's snippet, e.g. `# install`
+// in a shell block.
+function fencedLines(lines: string[]): boolean[] {
+  let fence: string | null = null;
+  return lines.map((line) => {
+    const marker = FENCE.exec(line)?.[1];
+    if (!marker) return fence !== null;
+    if (fence === null) fence = marker;
+    else if (marker[0] === fence[0] && marker.length >= fence.length) {
+      fence = null;
+    }
+    return true;
+  });
+}
+
+function isDelimiterLine(line: string, delimiter: string) {
+  return line.trim() === delimiter.trim();
+}
+
+function splitByDelimiter(text: string, delimiter: string) {
+  const prompts: string[] = [];
+  let current: string[] = [];
+  const lines = text.split(/\r?\n/);
+  const fenced = fencedLines(lines);
+  lines.forEach((line, index) => {
+    if (!fenced[index] && isDelimiterLine(line, delimiter)) {
+      prompts.push(current.join("\n"));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  });
+  prompts.push(current.join("\n"));
+  return cleaned(prompts);
+}
+
+// Heading text for each line that is a Markdown heading, null for the rest
+function headingLines(lines: string[]): (string | null)[] {
+  const fenced = fencedLines(lines);
+  return lines.map((line, index) =>
+    fenced[index] ? null : (HEADING.exec(line)?.[1] ?? null)
+  );
+}
+
+// Each heading starts a prompt; the heading is a label unless nothing
+// follows it, in which case its text is the prompt
+function splitByHeadings(text: string): Omit<PromptSplit, "mode"> {
+  const lines = text.split(/\r?\n/);
+  const headings = headingLines(lines);
+  const preamble: string[] = [];
+  const sections: { heading: string; body: string[] }[] = [];
+  lines.forEach((line, index) => {
+    const heading = headings[index];
+    if (heading !== null) sections.push({ heading, body: [] });
+    else if (sections.length === 0) preamble.push(line);
+    else sections[sections.length - 1].body.push(line);
+  });
+  return {
+    prompts: cleaned(
+      sections.map(({ heading, body }) => body.join("\n").trim() || heading)
+    ),
+    preamble: preamble.join("\n").trim() || undefined,
+  };
+}
+
+function promptFromEntry(entry: unknown, position: string): string {
+  if (typeof entry === "string") return entry;
+  if (entry !== null && typeof entry === "object" && !Array.isArray(entry)) {
+    const record = entry as Record<string, unknown>;
+    const key = PROMPT_KEYS.find((key) => typeof record[key] === "string");
+    if (key) return record[key] as string;
+  }
+  throw new Error(
+    `${position} is neither a string nor an object with a "prompt" field`
+  );
+}
+
+function splitJson(text: string) {
+  const trimmed = text.trim();
+  try {
+    const data: unknown = JSON.parse(trimmed);
+    const entries = Array.isArray(data) ? data : [data];
+    return cleaned(
+      entries.map((entry, index) => promptFromEntry(entry, `Item ${index + 1}`))
+    );
+  } catch (error) {
+    // A JSON list that parsed but has a bad entry isn't JSONL either
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  return cleaned(
+    lines.flatMap((line, index) => {
+      if (line.trim() === "") return [];
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(
+          lines.length === 1
+            ? "Text is not a valid JSON list"
+            : `Line ${index + 1} is not valid JSON`
+        );
+      }
+      return [promptFromEntry(entry, `Line ${index + 1}`)];
+    })
+  );
+}
+
+function detectMode(text: string): PromptSplit["mode"] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+  const lines = trimmed.split(/\r?\n/);
+  if (headingLines(lines).some((heading) => heading !== null)) {
+    return "headings";
+  }
+  return "delimiter";
+}
+
+/**
+ * Splits pasted text into prompt texts. With "auto", text starting with
+ * `[` or `{` is read as JSON or JSONL, text with Markdown headings is split
+ * at each heading outside code fences, and anything else at delimiter
+ * lines. Empty entries are dropped, and text before the first heading is
+ * returned as `preamble` rather than as a prompt. Throws with a readable
+ * message when JSON input can't be read.
+ */
+export function splitPrompts(
+  text: string,
+  mode: PromptSplitMode = "auto",
+  delimiter = DEFAULT_PROMPT_DELIMITER
+): PromptSplit {
+  const resolved = mode === "auto" ? detectMode(text) : mode;
+  if (text.trim() === "") return { mode: resolved, prompts: [] };
+
+  switch (resolved) {
+    case "json":
+      return { mode: resolved, prompts: splitJson(text) };
+    case "headings":
+      return { mode: resolved, ...splitByHeadings(text) };
+    case "delimiter":
+      return {
+        mode: resolved,
+        prompts: splitByDelimiter(text, delimiter || DEFAULT_PROMPT_DELIMITER),
+      };
+  }
+}
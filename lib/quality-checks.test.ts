@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_GDRIVE, validMetadata } from "@/lib/__fixtures__/metadata";
+import { checkQuality } from "@/lib/quality-checks";
+
+function findings(document: Record<string, unknown>) {
+  return checkQuality(document).map(({ ruleId, field, index }) => ({
+    ruleId,
+    field,
+    index,
+  }));
+}
+
+describe("checkQuality", () => {
+  it("has no warnings for a consistent document", () => {
+    expect(checkQuality(validMetadata(3))).toEqual([]);
+  });
+
+  it("flags a prompt linking to root_gdrive", () => {
+    const document = validMetadata();
+    document.prompts[0].gdrive = ROOT_GDRIVE;
+    expect(findings(document)).toEqual([
+      { ruleId: "PROMPT_GDRIVE_IS_ROOT", field: "prompts.0.gdrive", index: 0 },
+    ]);
+  });
+
+  it("compares Drive links by ID and comments ignoring case and spacing", () => {
+    const document = validMetadata(3);
+    document.prompts[2].gdrive = `${document.prompts[0].gdrive}?usp=sharing`;
+    document.prompts[2].comment = `  ${document.prompts[1].comment.toUpperCase()}`;
+    expect(findings(document)).toEqual([
+      {
+        ruleId: "DUPLICATE_PROMPT_GDRIVE",
+        field: "prompts.2.gdrive",
+        index: 2,
+      },
+      {
+        ruleId: "DUPLICATE_PROMPT_COMMENT",
+        field: "prompts.2.comment",
+        index: 2,
+      },
+    ]);
+  });
+
+  it("flags all-yes memory answers next to a missing_memory issue", () => {
+    const document = validMetadata(2);
+    document.prompts[1] = {
+      ...document.prompts[1],
+      issue_type: "missing_memory",
+    };
+    expect(checkQuality(document)).toMatchObject([
+      {
+        ruleId: "MEMORY_ANSWERS_CONTRADICT_ISSUES",
+        field: "memory",
+        message:
+          'All memory answers are "yes" but a missing_memory issue is reported in prompts[1]',
+      },
+    ]);
+    document.memory.context_accuracy = "no";
+    expect(checkQuality(document)).toEqual([]);
+  });
+
+  it("keeps prompt indices aligned past non-object prompts", () => {
+    const document = validMetadata();
+    expect(
+      findings({
+        ...document,
+        prompts: [null, ...document.prompts, ...document.prompts],
+      })
+    ).toEqual([
+      {
+        ruleId: "DUPLICATE_PROMPT_GDRIVE",
+        field: "prompts.2.gdrive",
+        index: 2,
+      },
+      {
+        ruleId: "DUPLICATE_PROMPT_COMMENT",
+        field: "prompts.2.comment",
+        index: 2,
+      },
+    ]);
+  });
+});
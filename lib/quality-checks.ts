@@ -0,0 +1,110 @@
+import { parseDriveUrl } from "@/lib/gdrive";
+import {
+  documentPrompts,
+  isPlainObject,
+  type JsonObject,
+} from "@/lib/json-values";
+import type { ValidationError } from "@/lib/validate-metadata";
+import { createFinding } from "@/lib/validation-rules";
+
+export const MEMORY_ANSWER_FIELDS = [
+  "memory_naturality",
+  "context_accuracy",
+  "code_referencing",
+  "remembers_debugging_history",
+  "maintains_coding_style",
+  "remembers_environment",
+  "avoids_referencing_irrelevant_memory",
+  "avoids_storing_irrelevant_memory",
+] as const;
+
+function normalize(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Links to the same Drive object compare equal despite ?usp=sharing etc.
+function driveKey(value: unknown) {
+  const url = normalize(value);
+  const parsed = url ? parseDriveUrl(url) : null;
+  return parsed?.ok ? parsed.link.id : url;
+}
+
+/**
+ * Cross-field consistency smells the schema can't express. Everything here
+ * is a warning: the document stays valid, but a reviewer should look twice.
+ */
+export function checkQuality(document: JsonObject): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  const prompts = documentPrompts(document);
+  const rootGdrive = driveKey(document.root_gdrive);
+
+  const firstGdrive = new Map<string, number>();
+  const firstComment = new Map<string, number>();
+  prompts.forEach((prompt, index) => {
+    const gdrive = driveKey(prompt.gdrive);
+    if (gdrive) {
+      if (gdrive === rootGdrive) {
+        warnings.push(
+          createFinding("PROMPT_GDRIVE_IS_ROOT", {
+            field: `prompts.${index}.gdrive`,
+            message: "Prompt gdrive link is the same as root_gdrive",
+            index,
+          })
+        );
+      }
+      const first = firstGdrive.get(gdrive);
+      if (first === undefined) {
+        firstGdrive.set(gdrive, index);
+      } else {
+        warnings.push(
+          createFinding("DUPLICATE_PROMPT_GDRIVE", {
+            field: `prompts.${index}.gdrive`,
+            message: `Same gdrive link as prompts[${first}]`,
+            index,
+          })
+        );
+      }
+    }
+
+    // Case and whitespace differences don't make a pasted comment original
+    const comment = normalize(prompt.comment)
+      .toLowerCase()
+      .replace(/\s+/g, " ");
+    if (comment) {
+      const first = firstComment.get(comment);
+      if (first === undefined) {
+        firstComment.set(comment, index);
+      } else {
+        warnings.push(
+          createFinding("DUPLICATE_PROMPT_COMMENT", {
+            field: `prompts.${index}.comment`,
+            message: `Comment is identical to prompts[${first}]`,
+            index,
+          })
+        );
+      }
+    }
+  });
+
+  const memory = document.memory;
+  const allMemoryYes =
+    isPlainObject(memory) &&
+    MEMORY_ANSWER_FIELDS.every((field) => memory[field] === "yes");
+  const missingMemoryPrompts = prompts
+    .map((prompt, index) =>
+      prompt.issue_type === "missing_memory" ? index : -1
+    )
+    .filter((index) => index !== -1);
+  if (allMemoryYes && missingMemoryPrompts.length > 0) {
+    warnings.push(
+      createFinding("MEMORY_ANSWERS_CONTRADICT_ISSUES", {
+        field: "memory",
+        message: `All memory answers are "yes" but a missing_memory issue is reported in ${missingMemoryPrompts
+          .map((index) => `prompts[${index}]`)
+          .join(", ")}`,
+      })
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatJsonReport,
+  formatJunitReport,
+  formatReport,
+  formatSarifReport,
+  formatTextReport,
+  type FileValidationResult,
+} from "@/lib/reports";
+import { createFinding } from "@/lib/validation-rules";
+
+const results: FileValidationResult[] = [
+  { file: "ok.json", errors: [] },
+  {
+    file: "bad <1>.json",
+    errors: [
+      createFinding("HFI_UUID_MISMATCH", {
+        field: "hfi_id",
+        message: "HFI ID should match the main UUID",
+        index: 0,
+        location: {
+          start: { line: 4, column: 15, offset: 40 },
+          end: { line: 4, column: 22, offset: 47 },
+        },
+      }),
+      createFinding("DUPLICATE_PROMPT_COMMENT", {
+        field: "prompts.1.comment",
+        message: 'Comment is "identical" to prompts[0]',
+        index: 1,
+      }),
+    ],
+  },
+  {
+    file: "warn.json",
+    errors: [
+      createFinding("LEGACY_SCHEMA_VERSION", {
+        field: "schema_version",
+        message: "Document uses an older schema",
+      }),
+    ],
+  },
+];
+
+describe("formatTextReport", () => {
+  it("lists each file with its grouped findings and a summary", () => {
+    expect(formatTextReport(results).split("\n")).toEqual([
+      "✔ ok.json",
+      "✖ bad <1>.json (1 error, 1 warning)",
+      "  prompts[0]",
+      "    error HFI_UUID_MISMATCH [hfi_id] HFI ID should match the main UUID",
+      "  prompts[1]",
+      '    warning DUPLICATE_PROMPT_COMMENT [prompts.1.comment] Comment is "identical" to prompts[0]',
+      "✔ warn.json (1 info)",
+      "  General Issues",
+      "    info LEGACY_SCHEMA_VERSION [schema_version] Document uses an older schema",
+      "",
+      "2 passed, 1 failed, 3 total",
+    ]);
+  });
+});
+
+describe("formatJsonReport", () => {
+  it("counts files with findings below error severity as passed", () => {
+    const report = JSON.parse(formatJsonReport(results));
+    expect(report.summary).toEqual({ total: 3, passed: 2, failed: 1 });
+    expect(report.files.map(({ valid }: { valid: boolean }) => valid)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+});
+
+describe("formatJunitReport", () => {
+  const report = formatJunitReport(results);
+
+  it("fails only test cases with error findings", () => {
+    expect(report).toContain('tests="3" failures="1"');
+    expect(report.match(/<failure /g)).toHaveLength(1);
+    expect(report).toContain(
+      '<failure message="1 validation error">HFI_UUID_MISMATCH hfi_id: HFI ID should match the main UUID</failure>'
+    );
+  });
+
+  it("escapes file names and messages", () => {
+    expect(report).toContain('<testcase name="bad &lt;1&gt;.json"');
+    expect(report).toContain("Comment is &quot;identical&quot; to prompts[0]");
+  });
+});
+
+describe("formatSarifReport", () => {
+  const [run] = JSON.parse(formatSarifReport(results)).runs;
+
+  it("maps severities to SARIF levels", () => {
+    expect(run.results.map(({ level }: { level: string }) => level)).toEqual([
+      "error",
+      "warning",
+      "note",
+    ]);
+  });
+
+  it("includes a region only for located findings", () => {
+    const [located, unlocated] = run.results.map(
+      (result: { locations: { physicalLocation: object }[] }) =>
+        result.locations[0].physicalLocation
+    );
+    expect(located).toEqual({
+      artifactLocation: { uri: "bad <1>.json" },
+      region: { startLine: 4, startColumn: 15, endLine: 4, endColumn: 22 },
+    });
+    expect(unlocated).not.toHaveProperty("region");
+  });
+
+  it("describes every rule", () => {
+    expect(run.tool.driver.rules).toContainEqual(
+      expect.objectContaining({
+        id: "LEGACY_SCHEMA_VERSION",
+        defaultConfiguration: { level: "note" },
+      })
+    );
+  });
+});
+
+describe("formatReport", () => {
+  it("dispatches on the format", () => {
+    expect(formatReport("text", results)).toBe(formatTextReport(results));
+    expect(formatReport("junit", results)).toBe(formatJunitReport(results));
+  });
+});
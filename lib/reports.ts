@@ -0,0 +1,192 @@
+import {
+  countBySeverity,
+  groupValidationErrors,
+  isPassing,
+  type ValidationError,
+} from "@/lib/validate-metadata";
+import { VALIDATION_RULES, type Severity } from "@/lib/validation-rules";
+
+export interface FileValidationResult {
+  file: string;
+  errors: ValidationError[];
+}
+
+export type ReportFormat = "text" | "json" | "junit" | "sarif";
+
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "junit", "sarif"];
+
+const TOOL_NAME = "metadata-check";
+
+const SARIF_LEVELS: Record<Severity, string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+export function formatReport(
+  format: ReportFormat,
+  results: FileValidationResult[]
+): string {
+  switch (format) {
+    case "json":
+      return formatJsonReport(results);
+    case "junit":
+      return formatJunitReport(results);
+    case "sarif":
+      return formatSarifReport(results);
+    default:
+      return formatTextReport(results);
+  }
+}
+
+// Mirrors the grouped error view of the checker's results card
+export function formatTextReport(results: FileValidationResult[]): string {
+  const lines: string[] = [];
+  const failed = results.filter((result) => !isPassing(result.errors));
+
+  results.forEach(({ file, errors }) => {
+    if (errors.length === 0) {
+      lines.push(`✔ ${file}`);
+      return;
+    }
+    const counts = countBySeverity(errors);
+    const summary = (["error", "warning", "info"] as const)
+      .filter((severity) => counts[severity] > 0)
+      .map(
+        (severity) =>
+          `${counts[severity]} ${severity}${counts[severity] !== 1 ? "s" : ""}`
+      )
+      .join(", ");
+    lines.push(`${isPassing(errors) ? "✔" : "✖"} ${file} (${summary})`);
+    Object.entries(groupValidationErrors(errors)).forEach(
+      ([section, sectionErrors]) => {
+        lines.push(`  ${section === "general" ? "General Issues" : section}`);
+        sectionErrors.forEach((error) => {
+          lines.push(
+            `    ${error.severity} ${error.ruleId} [${error.field}] ${error.message}`
+          );
+        });
+      }
+    );
+  });
+
+  lines.push("");
+  lines.push(
+    `${results.length - failed.length} passed, ${failed.length} failed, ${results.length} total`
+  );
+  return lines.join("\n");
+}
+
+export function formatJsonReport(results: FileValidationResult[]): string {
+  return JSON.stringify(
+    {
+      summary: {
+        total: results.length,
+        passed: results.filter((result) => isPassing(result.errors)).length,
+        failed: results.filter((result) => !isPassing(result.errors)).length,
+      },
+      files: results.map(({ file, errors }) => ({
+        file,
+        valid: isPassing(errors),
+        errors,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// Only error-severity findings become failures; the rest go to system-out
+export function formatJunitReport(results: FileValidationResult[]): string {
+  const failures = results.filter((result) => !isPassing(result.errors)).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="${TOOL_NAME}" tests="${results.length}" failures="${failures}">`,
+  ];
+
+  results.forEach(({ file, errors }) => {
+    const name = escapeXml(file);
+    if (errors.length === 0) {
+      lines.push(`    <testcase name="${name}" classname="${TOOL_NAME}"/>`);
+      return;
+    }
+    const failing = errors.filter((error) => error.severity === "error");
+    const other = errors.filter((error) => error.severity !== "error");
+    const describe = (list: ValidationError[]) =>
+      escapeXml(
+        list
+          .map((error) => `${error.ruleId} ${error.field}: ${error.message}`)
+          .join("\n")
+      );
+
+    lines.push(`    <testcase name="${name}" classname="${TOOL_NAME}">`);
+    if (failing.length > 0) {
+      lines.push(
+        `      <failure message="${failing.length} validation error${failing.length !== 1 ? "s" : ""}">${describe(failing)}</failure>`
+      );
+    }
+    if (other.length > 0) {
+      lines.push(`      <system-out>${describe(other)}</system-out>`);
+    }
+    lines.push("    </testcase>");
+  });
+
+  lines.push("  </testsuite>", "</testsuites>");
+  return lines.join("\n");
+}
+
+export function formatSarifReport(results: FileValidationResult[]): string {
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              rules: Object.entries(VALIDATION_RULES).map(([id, rule]) => ({
+                id,
+                shortDescription: { text: rule.description },
+                defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+              })),
+            },
+          },
+          results: results.flatMap(({ file, errors }) =>
+            errors.map((error) => ({
+              ruleId: error.ruleId,
+              level: SARIF_LEVELS[error.severity],
+              message: { text: `${error.field}: ${error.message}` },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: file },
+                    ...(error.location && {
+                      region: {
+                        startLine: error.location.start.line,
+                        startColumn: error.location.start.column,
+                        endLine: error.location.end.line,
+                        endColumn: error.location.end.column,
+                      },
+                    }),
+                  },
+                },
+              ],
+            }))
+          ),
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  CURRENT_SCHEMA_VERSION,
+  detectSchemaVersion,
+  getSchemaVersion,
+  isLegacySchemaVersion,
+  migrateMetadata,
+  resolveSchemaVersion,
+} from "@/lib/schema-versions";
+import { validateMetadata } from "@/lib/validate-metadata";
+
+// v1 documents predate the schema_version field
+function v1Metadata() {
+  const document: Record<string, unknown> = validMetadata();
+  delete document.schema_version;
+  return document;
+}
+
+describe("schema versions", () => {
+  it("makes v2 current and v1 legacy", () => {
+    expect(CURRENT_SCHEMA_VERSION.id).toBe("v2");
+    expect(isLegacySchemaVersion(getSchemaVersion("v1"))).toBe(true);
+    expect(isLegacySchemaVersion(getSchemaVersion("v2"))).toBe(false);
+  });
+
+  it("detects the version from the schema_version marker", () => {
+    expect(detectSchemaVersion(validMetadata())).toMatchObject({
+      version: { id: "v2" },
+      declared: true,
+    });
+    expect(detectSchemaVersion(v1Metadata())).toMatchObject({
+      version: { id: "v1" },
+      declared: false,
+    });
+  });
+
+  it("checks an unknown marker against the latest version", () => {
+    const document = { ...validMetadata(), schema_version: 9 };
+    expect(detectSchemaVersion(document).version.id).toBe("v2");
+    expect(
+      validateMetadata(document, { expectedPromptCount: 1 })
+    ).toMatchObject([{ ruleId: "SCHEMA_VERSION_INVALID" }]);
+  });
+
+  it("resolves a pinned version without detecting", () => {
+    expect(resolveSchemaVersion(validMetadata(), "v1").id).toBe("v1");
+    expect(resolveSchemaVersion(v1Metadata(), "auto").id).toBe("v1");
+  });
+});
+
+describe("migrateMetadata", () => {
+  it("detects a legacy document, migrates it and reports the changes", () => {
+    const legacy = v1Metadata();
+    expect(validateMetadata(legacy, { expectedPromptCount: 1 })).toMatchObject([
+      { ruleId: "LEGACY_SCHEMA_VERSION", severity: "info" },
+    ]);
+
+    const { data, from, to, changes } = migrateMetadata(legacy);
+    expect({ from, to, changes }).toEqual({
+      from: "v1",
+      to: "v2",
+      changes: ["Added schema_version: 2"],
+    });
+    expect(data).toEqual(validMetadata());
+    expect(legacy).not.toHaveProperty("schema_version");
+    expect(validateMetadata(data, { expectedPromptCount: 1 })).toEqual([]);
+  });
+
+  it("leaves current documents and non-objects unchanged", () => {
+    expect(migrateMetadata(validMetadata())).toEqual({
+      data: validMetadata(),
+      from: "v2",
+      to: "v2",
+      changes: [],
+    });
+    expect(migrateMetadata(null)).toMatchObject({ data: null, changes: [] });
+  });
+});
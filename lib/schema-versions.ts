@@ -0,0 +1,149 @@
+import type { ZodTypeAny } from "zod";
+import { isPlainObject } from "@/lib/json-values";
+import { getMetadataSchemas } from "@/lib/metadata-schema";
+import { DEFAULT_PROFILE, type RuleProfile } from "@/lib/profiles";
+
+export type SchemaVersionId = "v1" | "v2";
+
+export interface SchemaVersion {
+  id: SchemaVersionId;
+  label: string;
+  description: string;
+  getSchema: (profile?: RuleProfile) => ZodTypeAny;
+  // Value of the document's `schema_version` field, if the version has one
+  marker?: number;
+}
+
+export interface SchemaDetection {
+  version: SchemaVersion;
+  // True when the document declares its version via `schema_version`
+  declared: boolean;
+}
+
+export interface MigrationResult {
+  data: unknown;
+  from: SchemaVersionId;
+  to: SchemaVersionId;
+  changes: string[];
+}
+
+interface Migration {
+  from: SchemaVersionId;
+  to: SchemaVersionId;
+  migrate: (data: Record<string, unknown>, changes: string[]) => void;
+}
+
+// Ordered oldest to newest
+export const SCHEMA_VERSIONS: SchemaVersion[] = [
+  {
+    id: "v1",
+    label: "v1 (legacy)",
+    description: "Original format without a schema_version field",
+    getSchema: (profile) => getMetadataSchemas(profile).v1,
+  },
+  {
+    id: "v2",
+    label: "v2",
+    description: "Documents declare schema_version: 2",
+    getSchema: (profile) => getMetadataSchemas(profile).v2,
+    marker: 2,
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_VERSIONS[SCHEMA_VERSIONS.length - 1];
+
+// The version the generator writes, exports default to and older documents
+// are migrated to
+export const CURRENT_SCHEMA_VERSION = LATEST_SCHEMA_VERSION;
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: "v1",
+    to: "v2",
+    migrate: (data, changes) => {
+      data.schema_version = 2;
+      changes.push("Added schema_version: 2");
+    },
+  },
+];
+
+export function getSchemaVersion(id: SchemaVersionId): SchemaVersion {
+  const version = SCHEMA_VERSIONS.find((candidate) => candidate.id === id);
+  if (!version) throw new Error(`Unknown schema version "${id}"`);
+  return version;
+}
+
+// Older than the current version, so it can be migrated forward
+export function isLegacySchemaVersion(version: SchemaVersion): boolean {
+  return (
+    SCHEMA_VERSIONS.findIndex((v) => v.id === version.id) <
+    SCHEMA_VERSIONS.findIndex((v) => v.id === CURRENT_SCHEMA_VERSION.id)
+  );
+}
+
+export function isSchemaVersionId(value: unknown): value is SchemaVersionId {
+  return SCHEMA_VERSIONS.some((version) => version.id === value);
+}
+
+/**
+ * Picks the schema version a document was written for. A declared
+ * `schema_version` wins; otherwise the unmarked version with the fewest
+ * schema issues is chosen, preferring the newest on a tie.
+ */
+export function detectSchemaVersion(
+  data: unknown,
+  profile: RuleProfile = DEFAULT_PROFILE
+): SchemaDetection {
+  const declared = isPlainObject(data) ? data.schema_version : undefined;
+  if (declared !== undefined) {
+    const version = SCHEMA_VERSIONS.find((v) => v.marker === declared);
+    if (version) return { version, declared: true };
+    // Unknown marker: validate against the latest so the field is reported
+    return { version: LATEST_SCHEMA_VERSION, declared: true };
+  }
+
+  let best: { version: SchemaVersion; issues: number } | undefined;
+  for (const version of SCHEMA_VERSIONS) {
+    if (version.marker !== undefined) continue;
+    const result = version.getSchema(profile).safeParse(data);
+    const issues = result.success ? 0 : result.error.issues.length;
+    if (!best || issues <= best.issues) best = { version, issues };
+  }
+  return { version: best?.version ?? LATEST_SCHEMA_VERSION, declared: false };
+}
+
+export function resolveSchemaVersion(
+  data: unknown,
+  requested: SchemaVersionId | "auto" = "auto",
+  profile: RuleProfile = DEFAULT_PROFILE
+): SchemaVersion {
+  return requested === "auto"
+    ? detectSchemaVersion(data, profile).version
+    : getSchemaVersion(requested);
+}
+
+/**
+ * Upgrades a document step by step to `target`, recording every change so
+ * it can be shown to the user. The input document is not modified.
+ */
+export function migrateMetadata(
+  data: unknown,
+  target: SchemaVersionId = CURRENT_SCHEMA_VERSION.id
+): MigrationResult {
+  const from = detectSchemaVersion(data).version.id;
+  const changes: string[] = [];
+  if (!isPlainObject(data)) return { data, from, to: from, changes };
+
+  const migrated = structuredClone(data);
+  let current = from;
+  const targetIndex = SCHEMA_VERSIONS.findIndex((v) => v.id === target);
+  while (SCHEMA_VERSIONS.findIndex((v) => v.id === current) < targetIndex) {
+    const migration = MIGRATIONS.find((m) => m.from === current);
+    if (!migration) {
+      throw new Error(`No migration from schema ${current}`);
+    }
+    migration.migrate(migrated, changes);
+    current = migration.to;
+  }
+  return { data: migrated, from, to: current, changes };
+}
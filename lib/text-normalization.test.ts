@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PROFILE } from "@/lib/profiles";
+import { normalizeText } from "@/lib/text-normalization";
+
+describe("normalizeText", () => {
+  it("returns the text unchanged without steps", () => {
+    const text = " It’s \\n 'raw' ";
+    expect(normalizeText(text, [])).toBe(text);
+  });
+
+  it("unescapes JSON-in-JSON leftovers", () => {
+    expect(normalizeText("a\\nb\\r\\nc\\td", ["unescape-newlines"])).toBe(
+      "a\nb\nc\td"
+    );
+  });
+
+  it("leaves escapes alone in text that already has line breaks", () => {
+    const code = 'Fix this:\nprint("a\\nb")';
+    expect(normalizeText(code, ["unescape-newlines"])).toBe(code);
+  });
+
+  it("straightens smart quotes and replaces single quotes", () => {
+    expect(normalizeText("“It’s”", ["smart-quotes"])).toBe('"It\'s"');
+    expect(normalizeText("“It’s”", ["smart-quotes", "replace-quotes"])).toBe(
+      '"It"s"'
+    );
+  });
+
+  it("trims each line's trailing whitespace and the text", () => {
+    expect(normalizeText("\n  a  \t\nb \n", ["trim"])).toBe("a\nb");
+  });
+
+  it("runs steps in pipeline order whatever the selection order", () => {
+    expect(
+      normalizeText("‘x’\\n", ["trim", "replace-quotes", "smart-quotes"])
+    ).toBe('"x"\\n');
+  });
+
+  it("keeps code intact with the default profile's steps", () => {
+    const code = 'print("a\\nb")  ';
+    expect(normalizeText(code, DEFAULT_PROFILE.normalization)).toBe(
+      'print("a\\nb")'
+    );
+  });
+});
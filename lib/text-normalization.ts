@@ -0,0 +1,62 @@
+export interface NormalizationStep {
+  label: string;
+  description: string;
+  apply: (text: string) => string;
+}
+
+// Steps always run in this order, whichever subset is selected: smart quotes
+// are straightened before quotes are swapped, and trimming comes last
+export const NORMALIZATION_STEPS = {
+  "unescape-newlines": {
+    label: "Unescape \\n",
+    description:
+      "Turns literal \\n, \\r\\n and \\t sequences left over from JSON-in-JSON into real line breaks and tabs, unless the text already has line breaks. Also changes escapes inside code",
+    // JSON-in-JSON leftovers have no real line breaks; text that does holds
+    // its `\n` sequences on purpose, e.g. in code
+    apply: (text) =>
+      /[\r\n]/.test(text)
+        ? text
+        : text.replace(/\\r\\n|\\n/g, "\n").replace(/\\t/g, "\t"),
+  },
+  "smart-quotes": {
+    label: "Straighten smart quotes",
+    description: "Replaces curly quotes from word processors with ' and \"",
+    apply: (text) =>
+      text
+        .replace(/[\u2018\u2019\u201A\u201B]/g, "'")
+        .replace(/[\u201C\u201D\u201E\u201F]/g, '"'),
+  },
+  "replace-quotes": {
+    label: "Replace ' with \"",
+    description:
+      "Swaps every single quote for a double quote, including apostrophes and quotes inside code",
+    apply: (text) => text.replace(/'/g, '"'),
+  },
+  trim: {
+    label: "Trim whitespace",
+    description:
+      "Removes trailing spaces from each line and blank space around the text",
+    apply: (text) => text.replace(/[ \t]+$/gm, "").trim(),
+  },
+} satisfies Record<string, NormalizationStep>;
+
+export type NormalizationStepId = keyof typeof NORMALIZATION_STEPS;
+
+export const NORMALIZATION_STEP_IDS = Object.keys(NORMALIZATION_STEPS) as [
+  NormalizationStepId,
+  ...NormalizationStepId[],
+];
+
+/**
+ * Applies the selected steps in pipeline order. With no steps the text is
+ * returned unchanged, so the raw prompt is always one toggle away.
+ */
+export function normalizeText(
+  text: string,
+  steps: readonly NormalizationStepId[]
+): string {
+  return NORMALIZATION_STEP_IDS.filter((id) => steps.includes(id)).reduce(
+    (result, id) => NORMALIZATION_STEPS[id].apply(result),
+    text
+  );
+}
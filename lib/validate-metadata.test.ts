@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { validMetadata } from "@/lib/__fixtures__/metadata";
+import {
+  countBySeverity,
+  groupValidationErrors,
+  isPassing,
+  validateMetadata,
+  validateMetadataText,
+} from "@/lib/validate-metadata";
+
+function ruleIds(data: unknown, expectedPromptCount: number | string = 1) {
+  return validateMetadata(data, { expectedPromptCount }).map(
+    ({ ruleId }) => ruleId
+  );
+}
+
+describe("validateMetadata", () => {
+  it("passes a valid document", () => {
+    expect(
+      validateMetadata(validMetadata(2), { expectedPromptCount: 2 })
+    ).toEqual([]);
+  });
+
+  it("rejects a root that is not an object", () => {
+    expect(ruleIds([validMetadata()])).toEqual(["JSON_ROOT_NOT_OBJECT"]);
+  });
+
+  it("checks the expected prompt count", () => {
+    expect(ruleIds(validMetadata(2))).toEqual(["PROMPT_COUNT_MISMATCH"]);
+    ["0", "1.5", "1abc", "-1"].forEach((count) => {
+      expect(ruleIds(validMetadata(), count)).toContain("PROMPT_COUNT_INVALID");
+    });
+    expect(ruleIds(validMetadata(), " 1 ")).toEqual([]);
+    expect(ruleIds(validMetadata(), "")).toContain("PROMPT_COUNT_INVALID");
+    expect(ruleIds({ ...validMetadata(), prompts: "none" })).toContain(
+      "PROMPTS_MISSING"
+    );
+  });
+
+  it("reports each prompt whose hfi_id differs from the uuid", () => {
+    const document = validMetadata(2);
+    document.prompts[1].hfi_id = "other";
+    expect(
+      validateMetadata(document, { expectedPromptCount: 2 })
+    ).toMatchObject([
+      { ruleId: "HFI_UUID_MISMATCH", field: "hfi_id", index: 1 },
+    ]);
+  });
+
+  it("maps schema issues to rules with the prompt index", () => {
+    const document = validMetadata();
+    document.jira_id = "ABC-1";
+    document.prompts[0].level_of_correctness = 0;
+    expect(validateMetadata(document, { expectedPromptCount: 1 })).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: "jira_id", index: undefined }),
+        expect.objectContaining({
+          ruleId: "ISSUE_FIELDS_REQUIRED",
+          field: "prompts.0.issue_type",
+          index: 0,
+        }),
+      ])
+    );
+  });
+
+  it("includes quality warnings and drops suppressed rules", () => {
+    const document = validMetadata(2);
+    document.prompts[1].comment = document.prompts[0].comment;
+    expect(ruleIds(document, 2)).toEqual(["DUPLICATE_PROMPT_COMMENT"]);
+    expect(
+      validateMetadata(document, {
+        expectedPromptCount: 2,
+        suppress: ["DUPLICATE_PROMPT_COMMENT"],
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("validateMetadataText", () => {
+  it("returns located syntax errors without data", () => {
+    const { data, errors } = validateMetadataText('{"uuid": }');
+    expect(data).toBeUndefined();
+    expect(errors).toMatchObject([
+      {
+        ruleId: "JSON_SYNTAX_ERROR",
+        location: { start: { line: 1, column: 10 } },
+      },
+    ]);
+  });
+
+  it("locates findings in the source text", () => {
+    const document = validMetadata();
+    document.prompts[0].hfi_id = "other";
+    const text = JSON.stringify(document, null, 2);
+    const { data, errors } = validateMetadataText(text, {
+      expectedPromptCount: 1,
+    });
+    expect(data).toEqual(document);
+    const line = text
+      .split("\n")
+      .findIndex((line) => line.includes('"hfi_id": "other"'));
+    expect(errors).toMatchObject([
+      { ruleId: "HFI_UUID_MISMATCH", location: { start: { line: line + 1 } } },
+    ]);
+  });
+});
+
+describe("finding helpers", () => {
+  const errors = validateMetadata(
+    {
+      ...validMetadata(2),
+      prompts: [{ hfi_id: "x" }, validMetadata().prompts[0]],
+    },
+    { expectedPromptCount: 3 }
+  );
+
+  it("passes only documents without error findings", () => {
+    expect(isPassing(errors)).toBe(false);
+    expect(isPassing([])).toBe(true);
+  });
+
+  it("counts findings by severity", () => {
+    expect(countBySeverity(errors)).toEqual({
+      error: errors.length,
+      warning: 0,
+      info: 0,
+    });
+  });
+
+  it("groups findings by prompt", () => {
+    const groups = groupValidationErrors(errors);
+    expect(Object.keys(groups).sort()).toEqual(["general", "prompts[0]"]);
+  });
+});
@@ -0,0 +1,252 @@
+import type { ZodIssue } from "zod";
+import {
+  buildJsonSourceMap,
+  formatDiagnostic,
+  locateJsonPath,
+  parseJsonWithDiagnostics,
+  type JsonRange,
+  type JsonSourceMap,
+} from "@/lib/json-parser";
+import { isPlainObject } from "@/lib/json-values";
+import {
+  CURRENT_SCHEMA_VERSION,
+  isLegacySchemaVersion,
+  resolveSchemaVersion,
+  type SchemaVersionId,
+} from "@/lib/schema-versions";
+import { getProfile } from "@/lib/profiles";
+import { checkQuality } from "@/lib/quality-checks";
+import {
+  createFinding,
+  ruleForZodIssue,
+  type Severity,
+} from "@/lib/validation-rules";
+
+export interface ValidationError {
+  ruleId: string;
+  severity: Severity;
+  field: string;
+  message: string;
+  index?: number;
+  location?: JsonRange;
+}
+
+export interface ValidateMetadataOptions {
+  // Accepts the raw text of the "Number of Prompts" input as well as a number
+  expectedPromptCount?: number | string;
+  // Schema version to check against; "auto" detects it from the document
+  schemaVersion?: SchemaVersionId | "auto";
+  // Rule IDs whose findings are dropped from the result
+  suppress?: string[];
+  // Rule profile ID; defaults to the config file's default profile
+  profile?: string;
+}
+
+export interface MetadataTextValidation {
+  data: unknown;
+  errors: ValidationError[];
+}
+
+// Only error-severity findings fail a document; warnings and info don't
+export function isPassing(errors: ValidationError[]) {
+  return !errors.some((error) => error.severity === "error");
+}
+
+export function countBySeverity(errors: ValidationError[]) {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  errors.forEach((error) => counts[error.severity]++);
+  return counts;
+}
+
+// Text must be all digits, so "2.5" or "3abc" is invalid rather than 2 or 3
+export function parseExpectedPromptCount(value: number | string | undefined) {
+  if (value === undefined) return NaN;
+  if (typeof value === "number") return value;
+  return /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+}
+
+/**
+ * Runs every metadata rule against an already-parsed document: expected
+ * prompt count, the Zod schema of the (detected) version, the
+ * `hfi_id` === `uuid` check and the cross-field quality warnings.
+ */
+export function validateMetadata(
+  data: unknown,
+  options: ValidateMetadataOptions = {}
+): ValidationError[] {
+  const validationErrors: ValidationError[] = [];
+
+  if (!isPlainObject(data)) {
+    validationErrors.push(
+      createFinding("JSON_ROOT_NOT_OBJECT", {
+        field: "json",
+        message: "JSON root must be an object",
+      })
+    );
+    return applySuppressions(validationErrors, options);
+  }
+
+  const document = data;
+  const expectedPromptCount = parseExpectedPromptCount(
+    options.expectedPromptCount
+  );
+
+  // Check if promptCount is a positive whole number
+  if (
+    isNaN(expectedPromptCount) ||
+    expectedPromptCount <= 0 ||
+    !Number.isInteger(expectedPromptCount)
+  ) {
+    validationErrors.push(
+      createFinding("PROMPT_COUNT_INVALID", {
+        field: "prompt_count",
+        message: "Number of prompts must be a positive whole number",
+      })
+    );
+  }
+
+  // Check prompts array length
+  if (!document.prompts || !Array.isArray(document.prompts)) {
+    validationErrors.push(
+      createFinding("PROMPTS_MISSING", {
+        field: "prompts",
+        message: "Prompts array is missing or not an array",
+      })
+    );
+  } else if (document.prompts.length !== expectedPromptCount) {
+    validationErrors.push(
+      createFinding("PROMPT_COUNT_MISMATCH", {
+        field: "prompts",
+        message: `Prompts array length (${document.prompts.length}) does not match expected count (${expectedPromptCount})`,
+      })
+    );
+  }
+
+  // Validate with Zod schema
+  const profile = getProfile(options.profile);
+  const version = resolveSchemaVersion(
+    document,
+    options.schemaVersion,
+    profile
+  );
+  if (isLegacySchemaVersion(version)) {
+    validationErrors.push(
+      createFinding("LEGACY_SCHEMA_VERSION", {
+        field: "schema_version",
+        message: `Document uses schema ${version.label}; migrate it to ${CURRENT_SCHEMA_VERSION.label}`,
+      })
+    );
+  }
+  const result = version.getSchema(profile).safeParse(document);
+  if (!result.success) {
+    result.error.issues.forEach((issue: ZodIssue) => {
+      // Convert Zod error to our ValidationError format
+      const field = issue.path.join(".");
+      const promptIndex = field.match(/prompts\.(\d+)/)?.[1];
+
+      validationErrors.push(
+        createFinding(ruleForZodIssue(issue), {
+          field: field,
+          message: issue.message,
+          index: promptIndex ? parseInt(promptIndex) : undefined,
+        })
+      );
+    });
+  }
+
+  // Check HFI ID matches UUID for each prompt
+  if (document.prompts && Array.isArray(document.prompts) && document.uuid) {
+    document.prompts.forEach((prompt: unknown, index) => {
+      if (!isPlainObject(prompt) || prompt.hfi_id !== document.uuid) {
+        validationErrors.push(
+          createFinding("HFI_UUID_MISMATCH", {
+            field: "hfi_id",
+            message: "HFI ID should match the main UUID",
+            index,
+          })
+        );
+      }
+    });
+  }
+
+  validationErrors.push(...checkQuality(document));
+
+  return applySuppressions(validationErrors, options);
+}
+
+function applySuppressions(
+  errors: ValidationError[],
+  { suppress = [] }: ValidateMetadataOptions
+) {
+  return errors.filter((error) => !suppress.includes(error.ruleId));
+}
+
+// Parses raw JSON text first so syntax problems come back as located errors
+export function validateMetadataText(
+  text: string,
+  options: ValidateMetadataOptions = {}
+): MetadataTextValidation {
+  return validateJsonText(text, (data) => validateMetadata(data, options));
+}
+
+// Same as `validateMetadataText`, with the checks on the parsed value supplied
+export function validateJsonText(
+  text: string,
+  validate: (data: unknown) => ValidationError[]
+): MetadataTextValidation {
+  const { value, diagnostics } = parseJsonWithDiagnostics(text);
+  if (diagnostics.length > 0) {
+    return {
+      data: undefined,
+      errors: diagnostics.map((diagnostic) =>
+        createFinding("JSON_SYNTAX_ERROR", {
+          field: "json",
+          message: formatDiagnostic(diagnostic),
+          location: { start: diagnostic.start, end: diagnostic.end },
+        })
+      ),
+    };
+  }
+  const sourceMap = buildJsonSourceMap(text);
+  return {
+    data: value,
+    errors: validate(value).map((error) =>
+      error.location
+        ? error
+        : { ...error, location: locateFinding(sourceMap, error) }
+    ),
+  };
+}
+
+// Fields that refer to the checker's inputs rather than the document
+const OUTSIDE_DOCUMENT_FIELDS = ["prompt_count"];
+
+// JSON path a finding refers to: its dotted field, under its prompt if the
+// field is relative to one (e.g. `hfi_id` with an index)
+function findingPath({ field, index }: ValidationError): string[] {
+  if (field === "json") return [];
+  const path = field.split(".");
+  return index !== undefined && path[0] !== "prompts"
+    ? ["prompts", String(index), ...path]
+    : path;
+}
+
+// Source range of the value a finding refers to, or of the closest
+// enclosing value when it's missing from the document
+function locateFinding(
+  sourceMap: JsonSourceMap,
+  error: ValidationError
+): JsonRange | undefined {
+  if (OUTSIDE_DOCUMENT_FIELDS.includes(error.field)) return undefined;
+  return locateJsonPath(sourceMap, findingPath(error)) ?? undefined;
+}
+
+export function groupValidationErrors(errors: ValidationError[]) {
+  return errors.reduce((acc, error) => {
+    const key =
+      error.index !== undefined ? `prompts[${error.index}]` : "general";
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(error);
+    return acc;
+  }, {} as Record<string, ValidationError[]>);
+}
@@ -0,0 +1,146 @@
+import type { ZodIssue } from "zod";
+import type { ValidationError } from "@/lib/validate-metadata";
+
+export type Severity = "error" | "warning" | "info";
+
+export const SEVERITIES: Severity[] = ["error", "warning", "info"];
+
+export interface ValidationRule {
+  severity: Severity;
+  description: string;
+}
+
+/**
+ * Catalog of every finding the checker can report. Rule IDs are part of the
+ * public contract (CLI, API, reports), so never rename an existing one.
+ */
+export const VALIDATION_RULES = {
+  JSON_SYNTAX_ERROR: {
+    severity: "error",
+    description: "The input is not valid JSON",
+  },
+  JSON_ROOT_NOT_OBJECT: {
+    severity: "error",
+    description: "The JSON document must be an object",
+  },
+  PROMPT_COUNT_INVALID: {
+    severity: "error",
+    description: "The expected number of prompts is not a positive whole number",
+  },
+  PROMPTS_MISSING: {
+    severity: "error",
+    description: "The prompts array is missing or not an array",
+  },
+  PROMPT_COUNT_MISMATCH: {
+    severity: "error",
+    description: "The number of prompts differs from the expected count",
+  },
+  HFI_UUID_MISMATCH: {
+    severity: "error",
+    description: "A prompt's hfi_id differs from the document uuid",
+  },
+  CODEBASE_WORKFLOW_MISMATCH: {
+    severity: "error",
+    description: "Codebase fields do not match the workflow",
+  },
+  ISSUE_FIELDS_REQUIRED: {
+    severity: "error",
+    description:
+      "Issue type, comment and source are required below the top level_of_correctness",
+  },
+  MODEL_NOT_ALLOWED: {
+    severity: "error",
+    description: "The model is unknown or outside its active date range",
+  },
+  GDRIVE_URL_INVALID: {
+    severity: "error",
+    description:
+      "A gdrive link is not a Google Drive URL or points at the wrong kind of object",
+  },
+  SCHEMA_VERSION_INVALID: {
+    severity: "error",
+    description: "The schema_version field does not name a known version",
+  },
+  SCHEMA_INVALID_TYPE: {
+    severity: "error",
+    description: "A field is missing or has the wrong type",
+  },
+  SCHEMA_INVALID_VALUE: {
+    severity: "error",
+    description: "A field is outside its allowed values or format",
+  },
+  SCHEMA_VIOLATION: {
+    severity: "error",
+    description: "The document does not match the metadata schema",
+  },
+  DUPLICATE_PROMPT_GDRIVE: {
+    severity: "warning",
+    description: "Two prompts link to the same gdrive URL",
+  },
+  PROMPT_GDRIVE_IS_ROOT: {
+    severity: "warning",
+    description: "A prompt's gdrive URL is the same as root_gdrive",
+  },
+  DUPLICATE_PROMPT_COMMENT: {
+    severity: "warning",
+    description: "Two prompts have identical comment text",
+  },
+  MEMORY_ANSWERS_CONTRADICT_ISSUES: {
+    severity: "warning",
+    description:
+      "Every memory answer is yes although a prompt reports a missing_memory issue",
+  },
+  JSON_SCHEMA_VIOLATION: {
+    severity: "error",
+    description: "The document does not match the loaded external JSON Schema",
+  },
+  LEGACY_SCHEMA_VERSION: {
+    severity: "info",
+    description: "The document uses an older schema version that can be migrated",
+  },
+} satisfies Record<string, ValidationRule>;
+
+export type RuleId = keyof typeof VALIDATION_RULES;
+
+export function getRule(ruleId: string): ValidationRule | undefined {
+  return (VALIDATION_RULES as Record<string, ValidationRule>)[ruleId];
+}
+
+export function createFinding(
+  ruleId: RuleId,
+  details: Omit<ValidationError, "ruleId" | "severity">
+): ValidationError {
+  return { ruleId, severity: VALIDATION_RULES[ruleId].severity, ...details };
+}
+
+// Maps a Zod issue to the most specific rule that explains it
+export function ruleForZodIssue(issue: ZodIssue): RuleId {
+  const field = issue.path[issue.path.length - 1];
+  if (issue.path.length === 1 && field === "codebase") {
+    return "CODEBASE_WORKFLOW_MISMATCH";
+  }
+  if (issue.code === "custom" && field === "issue_type") {
+    return "ISSUE_FIELDS_REQUIRED";
+  }
+  if (field === "model" && issue.code === "custom") return "MODEL_NOT_ALLOWED";
+  if (
+    (field === "gdrive" || field === "root_gdrive") &&
+    issue.code === "custom"
+  ) {
+    return "GDRIVE_URL_INVALID";
+  }
+  if (field === "schema_version") return "SCHEMA_VERSION_INVALID";
+
+  switch (issue.code) {
+    case "invalid_type":
+      return "SCHEMA_INVALID_TYPE";
+    case "invalid_enum_value":
+    case "invalid_literal":
+    case "invalid_string":
+    case "too_small":
+    case "too_big":
+      return "SCHEMA_INVALID_VALUE";
+    default:
+      return "SCHEMA_VIOLATION";
+  }
+}
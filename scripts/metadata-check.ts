@@ -0,0 +1,197 @@
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  formatReport,
+  REPORT_FORMATS,
+  type FileValidationResult,
+  type ReportFormat,
+} from "@/lib/reports";
+import { DEFAULT_PROFILE, findProfile, RULE_PROFILES } from "@/lib/profiles";
+import { isSchemaVersionId, SCHEMA_VERSIONS } from "@/lib/schema-versions";
+import {
+  isPassing,
+  parseExpectedPromptCount,
+  validateMetadataText,
+} from "@/lib/validate-metadata";
+import { getRule } from "@/lib/validation-rules";
+
+const USAGE = `Usage: metadata-check --prompts <count> [options] <file|dir|glob>...
+
+Validates metadata JSON files with the same rules as the Metadata Checker.
+
+Options:
+  -p, --prompts <count>   Expected number of prompts in every file
+  -s, --schema <version>  Schema version: auto, ${SCHEMA_VERSIONS.map((v) => v.id).join(", ")} (default: auto)
+  -r, --profile <id>      Rule profile: ${RULE_PROFILES.map((p) => p.id).join(", ")} (default: ${DEFAULT_PROFILE.id})
+  -f, --format <format>   Report format: ${REPORT_FORMATS.join(", ")} (default: text)
+  -o, --output <file>     Write the report to a file instead of stdout
+  --suppress <rule>       Drop findings of a rule ID; repeat for several rules
+  -h, --help              Show this message
+
+Warnings and info findings are reported but never fail a file.
+
+Exit codes: 0 all files valid, 1 validation failures, 2 usage error`;
+
+class UsageError extends Error {}
+
+// `npm run` switches to the package root; resolve paths from the caller's cwd
+const cwd = process.env.INIT_CWD ?? process.cwd();
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      prompts: { type: "string", short: "p" },
+      schema: { type: "string", short: "s", default: "auto" },
+      profile: { type: "string", short: "r" },
+      format: { type: "string", short: "f", default: "text" },
+      output: { type: "string", short: "o" },
+      suppress: { type: "string", multiple: true, default: [] },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!REPORT_FORMATS.includes(values.format as ReportFormat)) {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+  const schemaVersion = values.schema;
+  if (schemaVersion !== "auto" && !isSchemaVersionId(schemaVersion)) {
+    throw new UsageError(`Unknown schema version "${schemaVersion}"`);
+  }
+  if (values.profile !== undefined && !findProfile(values.profile)) {
+    throw new UsageError(`Unknown rule profile "${values.profile}"`);
+  }
+  const unknownRule = values.suppress.find((ruleId) => !getRule(ruleId));
+  if (unknownRule) {
+    throw new UsageError(`Unknown rule ID "${unknownRule}"`);
+  }
+  if (values.prompts === undefined) {
+    throw new UsageError("Missing --prompts <count>");
+  }
+  // Checked up front: a bad flag is a usage error, not a finding per file
+  const expectedPromptCount = parseExpectedPromptCount(values.prompts);
+  if (!Number.isInteger(expectedPromptCount) || expectedPromptCount <= 0) {
+    throw new UsageError(
+      `--prompts must be a positive whole number, got "${values.prompts}"`
+    );
+  }
+  if (positionals.length === 0) {
+    throw new UsageError("No files given");
+  }
+
+  const files = await resolveInputs(positionals);
+  if (files.length === 0) {
+    throw new UsageError("No JSON files matched the given paths");
+  }
+
+  const results: FileValidationResult[] = [];
+  for (const file of files) {
+    const text = await readFile(file, "utf8");
+    const { errors } = validateMetadataText(text, {
+      expectedPromptCount,
+      schemaVersion,
+      profile: values.profile,
+      suppress: values.suppress,
+    });
+    results.push({ file: path.relative(cwd, file) || file, errors });
+  }
+
+  const report = formatReport(values.format as ReportFormat, results);
+  if (values.output) {
+    await writeFile(path.resolve(cwd, values.output), report + "\n");
+  } else {
+    console.log(report);
+  }
+  return results.every((result) => isPassing(result.errors)) ? 0 : 1;
+}
+
+async function resolveInputs(inputs: string[]) {
+  const files = new Set<string>();
+  for (const input of inputs) {
+    if (/[*?]/.test(input)) {
+      (await expandGlob(input)).forEach((file) => files.add(file));
+      continue;
+    }
+    const resolved = path.resolve(cwd, input);
+    const stats = await stat(resolved).catch(() => null);
+    if (!stats) throw new UsageError(`No such file or directory: ${input}`);
+    if (stats.isDirectory()) {
+      (await listFiles(resolved))
+        .filter((file) => file.endsWith(".json"))
+        .forEach((file) => files.add(file));
+    } else {
+      files.add(resolved);
+    }
+  }
+  return [...files].sort();
+}
+
+async function expandGlob(pattern: string) {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => /[*?]/.test(segment));
+  const base = path.resolve(cwd, segments.slice(0, firstGlob).join("/") || ".");
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+
+  const candidates = await listFiles(base).catch(() => []);
+  return candidates.filter((file) =>
+    matcher.test(path.relative(base, file).split(path.sep).join("/"))
+  );
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+        files.push(...(await listFiles(fullPath)));
+      }
+    } else {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Supports `*`, `?` and `**` path segments
+function globToRegExp(glob: string) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    const isUsageError =
+      error instanceof UsageError ||
+      (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+    if (isUsageError) {
+      console.error(`metadata-check: ${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(error);
+    process.exitCode = 2;
+  });